@@ -188,13 +188,13 @@ function renderMip(level: number): void {
     if (!currentTexture || !currentBuffer) return;
     try {
         const mip = currentTexture.mipmaps[level];
-        const rgba = currentTexture.getRgbaPixelData(level);
+        const image = currentTexture.getRgbaPixelData(level);
 
         canvas.width = mip.width;
         canvas.height = mip.height;
 
         const imageData = ctx.createImageData(mip.width, mip.height);
-        imageData.data.set(rgba);
+        imageData.data.set(image.data);
         ctx.putImageData(imageData, 0, 0);
 
         canvasSizeEl.textContent = `${mip.width} × ${mip.height}`;
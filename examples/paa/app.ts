@@ -248,7 +248,7 @@ function renderMipmap(level: number): void {
     try {
         const mip = currentTexture.mipmaps[level];
         // getArgb32PixelData returns BGRA format with channel swizzle applied
-        const pixelData = currentTexture.getArgb32PixelData(currentBuffer, level);
+        const pixelData = currentTexture.getArgb32PixelData(currentBuffer, level).data;
 
         canvas.width = mip.width;
         canvas.height = mip.height;
@@ -1,11 +1,13 @@
 /**
- * BC1 (DXT1) Decoder
+ * BC1 (DXT1) Decoder and Encoder
  * Source: https://github.com/Nominom/BCnEncoder.NET
  */
 
+import { RgbaImage } from '@bis-toolkit/utils';
+import { type BC1EncoderOptions, encodeBlocks, encodeColorBlock } from './encoderUtils';
 import { ColorRgb565, interpolateHalf, interpolateThird } from './utils';
 
-export function decodeBC1(data: DataView, width: number, height: number, useAlpha = false): Uint8Array {
+export function decodeBC1(data: DataView, width: number, height: number, useAlpha = false): RgbaImage {
     const rgba = new Uint8Array(width * height * 4);
     const blocksX = Math.ceil(width / 4);
     const blocksY = Math.ceil(height / 4);
@@ -73,5 +75,21 @@ export function decodeBC1(data: DataView, width: number, height: number, useAlph
         }
     }
 
-    return rgba;
+    return new RgbaImage(width, height, rgba);
+}
+
+/**
+ * Encode RGBA pixels as BC1. With `punchThroughAlpha`, pixels below the alpha threshold
+ * are stored as transparent and decode as such with `decodeBC1(..., useAlpha = true)`.
+ */
+export function encodeBC1(rgba: Uint8Array, width: number, height: number, options: BC1EncoderOptions = {}): Uint8Array {
+    const colorOptions = {
+        quality: options.quality ?? 'normal',
+        allowThreeColor: true,
+        alphaThreshold: options.punchThroughAlpha ? (options.alphaThreshold ?? 128) : 0
+    };
+
+    return encodeBlocks(rgba, width, height, 8, (block, out, offset) => {
+        encodeColorBlock(block, out, offset, colorOptions);
+    });
 }
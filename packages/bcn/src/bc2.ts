@@ -1,11 +1,13 @@
 /**
- * BC2 (DXT3) Decoder - RGBA with explicit alpha
+ * BC2 (DXT3) Decoder and Encoder - RGBA with explicit alpha
  * Source: https://github.com/Nominom/BCnEncoder.NET
  */
 
+import { RgbaImage } from '@bis-toolkit/utils';
+import { type BcEncoderOptions, encodeBlocks, encodeColorBlock, encodeExplicitAlphaBlock } from './encoderUtils';
 import { ColorRgb565, interpolateThird } from './utils';
 
-export function decodeBC2(data: DataView, width: number, height: number): Uint8Array {
+export function decodeBC2(data: DataView, width: number, height: number): RgbaImage {
     const rgba = new Uint8Array(width * height * 4);
     const blocksX = Math.ceil(width / 4);
     const blocksY = Math.ceil(height / 4);
@@ -73,5 +75,17 @@ export function decodeBC2(data: DataView, width: number, height: number): Uint8A
         }
     }
 
-    return rgba;
+    return new RgbaImage(width, height, rgba);
+}
+
+/**
+ * Encode RGBA pixels as BC2, alpha is quantized to 4 bits
+ */
+export function encodeBC2(rgba: Uint8Array, width: number, height: number, options: BcEncoderOptions = {}): Uint8Array {
+    const colorOptions = { quality: options.quality ?? 'normal', allowThreeColor: false, alphaThreshold: 0 };
+
+    return encodeBlocks(rgba, width, height, 16, (block, out, offset) => {
+        encodeExplicitAlphaBlock(block, out, offset);
+        encodeColorBlock(block, out, offset + 8, colorOptions);
+    });
 }
@@ -1,8 +1,10 @@
 /**
- * BC3 (DXT5) Decoder - RGBA with interpolated alpha
+ * BC3 (DXT5) Decoder and Encoder - RGBA with interpolated alpha
  * Source: https://github.com/Nominom/BCnEncoder.NET
  */
 
+import { RgbaImage } from '@bis-toolkit/utils';
+import { type BcEncoderOptions, encodeBlocks, encodeColorBlock, encodeComponentBlock } from './encoderUtils';
 import { ColorRgb565, interpolateThird, interpolateByteFifth, interpolateByteSeventh } from './utils';
 
 function decodeAlphaBlock(alphaData: bigint): number[] {
@@ -42,7 +44,7 @@ function decodeAlphaBlock(alphaData: bigint): number[] {
     return alpha;
 }
 
-export function decodeBC3(data: DataView, width: number, height: number): Uint8Array {
+export function decodeBC3(data: DataView, width: number, height: number): RgbaImage {
     const rgba = new Uint8Array(width * height * 4);
     const blocksX = Math.ceil(width / 4);
     const blocksY = Math.ceil(height / 4);
@@ -99,5 +101,19 @@ export function decodeBC3(data: DataView, width: number, height: number): Uint8A
         }
     }
 
-    return rgba;
+    return new RgbaImage(width, height, rgba);
+}
+
+/**
+ * Encode RGBA pixels as BC3
+ */
+export function encodeBC3(rgba: Uint8Array, width: number, height: number, options: BcEncoderOptions = {}): Uint8Array {
+    const quality = options.quality ?? 'normal';
+    const colorOptions = { quality, allowThreeColor: false, alphaThreshold: 0 };
+    const alphaOptions = { quality, signed: false };
+
+    return encodeBlocks(rgba, width, height, 16, (block, out, offset) => {
+        encodeComponentBlock(block, 3, out, offset, alphaOptions);
+        encodeColorBlock(block, out, offset + 8, colorOptions);
+    });
 }
@@ -1,9 +1,11 @@
 /**
- * BC4 Decoder - Single channel compression
+ * BC4 Decoder and Encoder - Single channel compression
  * Source: https://github.com/Nominom/BCnEncoder.NET
  */
 
-import { interpolateByteFifth, interpolateByteSeventh } from './utils';
+import { RgbaImage } from '@bis-toolkit/utils';
+import { type BC4EncoderOptions, CHANNEL_INDEX, encodeBlocks, encodeComponentBlock } from './encoderUtils';
+import { decodeSignedComponentBlock, interpolateByteFifth, interpolateByteSeventh } from './utils';
 
 function decodeComponentBlock(componentData: bigint): number[] {
     const output = new Array<number>(16);
@@ -42,7 +44,13 @@ function decodeComponentBlock(componentData: bigint): number[] {
     return output;
 }
 
-export function decodeBC4(data: DataView, width: number, height: number, channel: 'r' | 'g' | 'b' | 'a' = 'r'): Uint8Array {
+export function decodeBC4(
+    data: DataView,
+    width: number,
+    height: number,
+    channel: 'r' | 'g' | 'b' | 'a' = 'r',
+    signed = false
+): RgbaImage {
     const rgba = new Uint8Array(width * height * 4);
     const blocksX = Math.ceil(width / 4);
     const blocksY = Math.ceil(height / 4);
@@ -54,7 +62,7 @@ export function decodeBC4(data: DataView, width: number, height: number, channel
     for (let by = 0; by < blocksY; by++) {
         for (let bx = 0; bx < blocksX; bx++) {
             const componentBlock = data.getBigUint64(offset, true);
-            const components = decodeComponentBlock(componentBlock);
+            const components = signed ? decodeSignedComponentBlock(componentBlock) : decodeComponentBlock(componentBlock);
 
             // Decode 4x4 block
             for (let y = 0; y < 4; y++) {
@@ -82,5 +90,21 @@ export function decodeBC4(data: DataView, width: number, height: number, channel
         }
     }
 
-    return rgba;
+    return new RgbaImage(width, height, rgba, 'RGBA', 'linear');
+}
+
+/**
+ * Encode one channel of RGBA pixels as BC4
+ */
+export function encodeBC4(rgba: Uint8Array, width: number, height: number, options: BC4EncoderOptions = {}): Uint8Array {
+    const channel = CHANNEL_INDEX[options.channel ?? 'r'];
+    const componentOptions = {
+        quality: options.quality ?? 'normal',
+        signed: options.signed ?? false,
+        interpolants: options.interpolants
+    };
+
+    return encodeBlocks(rgba, width, height, 8, (block, out, offset) => {
+        encodeComponentBlock(block, channel, out, offset, componentOptions);
+    });
 }
@@ -1,9 +1,11 @@
 /**
- * BC5 Decoder - Two channel compression (typically for normal maps)
+ * BC5 Decoder and Encoder - Two channel compression (typically for normal maps)
  * Source: https://github.com/Nominom/BCnEncoder.NET
  */
 
-import { interpolateByteFifth, interpolateByteSeventh } from './utils';
+import { RgbaImage } from '@bis-toolkit/utils';
+import { type BC5EncoderOptions, CHANNEL_INDEX, encodeBlocks, encodeComponentBlock } from './encoderUtils';
+import { decodeSignedComponentBlock, interpolateByteFifth, interpolateByteSeventh } from './utils';
 
 function decodeComponentBlock(componentData: bigint): number[] {
     const output = new Array<number>(16);
@@ -47,8 +49,9 @@ export function decodeBC5(
     width: number, 
     height: number,
     channel1: 'r' | 'g' | 'b' | 'a' = 'r',
-    channel2: 'r' | 'g' | 'b' | 'a' = 'g'
-): Uint8Array {
+    channel2: 'r' | 'g' | 'b' | 'a' = 'g',
+    signed = false
+): RgbaImage {
     const rgba = new Uint8Array(width * height * 4);
     const blocksX = Math.ceil(width / 4);
     const blocksY = Math.ceil(height / 4);
@@ -62,11 +65,11 @@ export function decodeBC5(
         for (let bx = 0; bx < blocksX; bx++) {
             // Read red channel block
             const redBlock = data.getBigUint64(offset, true);
-            const reds = decodeComponentBlock(redBlock);
+            const reds = signed ? decodeSignedComponentBlock(redBlock) : decodeComponentBlock(redBlock);
 
             // Read green channel block
             const greenBlock = data.getBigUint64(offset + 8, true);
-            const greens = decodeComponentBlock(greenBlock);
+            const greens = signed ? decodeSignedComponentBlock(greenBlock) : decodeComponentBlock(greenBlock);
 
             // Decode 4x4 block
             for (let y = 0; y < 4; y++) {
@@ -95,5 +98,23 @@ export function decodeBC5(
         }
     }
 
-    return rgba;
+    return new RgbaImage(width, height, rgba, 'RGBA', 'linear');
+}
+
+/**
+ * Encode two channels of RGBA pixels as BC5
+ */
+export function encodeBC5(rgba: Uint8Array, width: number, height: number, options: BC5EncoderOptions = {}): Uint8Array {
+    const channel1 = CHANNEL_INDEX[options.channel1 ?? 'r'];
+    const channel2 = CHANNEL_INDEX[options.channel2 ?? 'g'];
+    const componentOptions = {
+        quality: options.quality ?? 'normal',
+        signed: options.signed ?? false,
+        interpolants: options.interpolants
+    };
+
+    return encodeBlocks(rgba, width, height, 16, (block, out, offset) => {
+        encodeComponentBlock(block, channel1, out, offset, componentOptions);
+        encodeComponentBlock(block, channel2, out, offset + 8, componentOptions);
+    });
 }
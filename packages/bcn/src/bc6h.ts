@@ -0,0 +1,277 @@
+/**
+ * BC6H Decoder - HDR RGB half-float compression (signed and unsigned)
+ * Bit layouts follow the Direct3D 11 BC6H format specification
+ */
+
+import { linearToSrgb } from '@bis-toolkit/utils';
+import { SUBSETS_2_ANCHOR_INDICES, SUBSETS_2_PARTITION_TABLE } from './bc7';
+import { halfToFloat } from './utils';
+
+const WEIGHTS_3 = [0, 9, 18, 27, 37, 46, 55, 64];
+const WEIGHTS_4 = [0, 4, 9, 13, 17, 21, 26, 30, 34, 38, 43, 47, 51, 55, 60, 64];
+
+interface Bc6hField {
+    endpoint: number; // 0-3 (w, x, y, z) or -1 for the partition index
+    channel: number;  // 0-2 (r, g, b)
+    bits: number[];   // Target bit positions in the order they are stored
+}
+
+interface Bc6hMode {
+    modeBits: number;
+    transformed: boolean;
+    regions: number;
+    endpointBits: number;
+    deltaBits: [number, number, number];
+    fields: Bc6hField[];
+}
+
+/**
+ * Parse a field list in the notation of the specification, e.g. "rw9:0 gy4 bw10:15".
+ * Fields are stored from the least significant bit up; a reversed range ("10:15")
+ * stores its highest bit first.
+ */
+function parseLayout(layout: string): Bc6hField[] {
+    return layout.split(' ').map(token => {
+        const match = /^([rgb][wxyz]|d)(\d+)(?::(\d+))?$/.exec(token);
+        if (!match) {
+            throw new Error(`Invalid BC6H layout token ${token}`);
+        }
+
+        const first = Number(match[2]);
+        const last = match[3] !== undefined ? Number(match[3]) : first;
+        const bits: number[] = [];
+        if (first >= last) {
+            for (let bit = last; bit <= first; bit++) bits.push(bit);
+        } else {
+            for (let bit = last; bit >= first; bit--) bits.push(bit);
+        }
+
+        const name = match[1];
+        if (name === 'd') {
+            return { endpoint: -1, channel: 0, bits };
+        }
+        return { endpoint: 'wxyz'.indexOf(name[1]), channel: 'rgb'.indexOf(name[0]), bits };
+    });
+}
+
+function mode(modeBits: number, transformed: boolean, regions: number, endpointBits: number,
+    deltaBits: [number, number, number], layout: string): Bc6hMode {
+    return { modeBits, transformed, regions, endpointBits, deltaBits, fields: parseLayout(layout) };
+}
+
+// Keyed by the value of the mode bits (2 bits for modes 1-2, 5 bits for the rest)
+const MODES = new Map<number, Bc6hMode>([
+    [0x00, mode(2, true, 2, 10, [5, 5, 5], 'gy4 by4 bz4 rw9:0 gw9:0 bw9:0 rx4:0 gz4 gy3:0 gx4:0 bz0 gz3:0 bx4:0 bz1 by3:0 ry4:0 bz2 rz4:0 bz3 d4:0')],
+    [0x01, mode(2, true, 2, 7, [6, 6, 6], 'gy5 gz4 gz5 rw6:0 bz0 bz1 by4 gw6:0 by5 bz2 gy4 bw6:0 bz3 bz5 bz4 rx5:0 gy3:0 gx5:0 gz3:0 bx5:0 by3:0 ry5:0 rz5:0 d4:0')],
+    [0x02, mode(5, true, 2, 11, [5, 4, 4], 'rw9:0 gw9:0 bw9:0 rx4:0 rw10 gy3:0 gx3:0 gw10 bz0 gz3:0 bx3:0 bw10 bz1 by3:0 ry4:0 bz2 rz4:0 bz3 d4:0')],
+    [0x06, mode(5, true, 2, 11, [4, 5, 4], 'rw9:0 gw9:0 bw9:0 rx3:0 rw10 gz4 gy3:0 gx4:0 gw10 gz3:0 bx3:0 bw10 bz1 by3:0 ry3:0 bz0 bz2 rz3:0 gy4 bz3 d4:0')],
+    [0x0a, mode(5, true, 2, 11, [4, 4, 5], 'rw9:0 gw9:0 bw9:0 rx3:0 rw10 by4 gy3:0 gx3:0 gw10 bz0 gz3:0 bx4:0 bw10 by3:0 ry3:0 bz1 bz2 rz3:0 bz4 bz3 d4:0')],
+    [0x0e, mode(5, true, 2, 9, [5, 5, 5], 'rw8:0 by4 gw8:0 gy4 bw8:0 bz4 rx4:0 gz4 gy3:0 gx4:0 bz0 gz3:0 bx4:0 bz1 by3:0 ry4:0 bz2 rz4:0 bz3 d4:0')],
+    [0x12, mode(5, true, 2, 8, [6, 5, 5], 'rw7:0 gz4 by4 gw7:0 bz2 gy4 bw7:0 bz3 bz4 rx5:0 gy3:0 gx4:0 bz0 gz3:0 bx4:0 bz1 by3:0 ry5:0 rz5:0 d4:0')],
+    [0x16, mode(5, true, 2, 8, [5, 6, 5], 'rw7:0 bz0 by4 gw7:0 gy5 gy4 bw7:0 gz5 bz4 rx4:0 gz4 gy3:0 gx5:0 gz3:0 bx4:0 bz1 by3:0 ry4:0 bz2 rz4:0 bz3 d4:0')],
+    [0x1a, mode(5, true, 2, 8, [5, 5, 6], 'rw7:0 bz1 by4 gw7:0 by5 gy4 bw7:0 bz5 bz4 rx4:0 gz4 gy3:0 gx4:0 bz0 gz3:0 bx5:0 by3:0 ry4:0 bz2 rz4:0 bz3 d4:0')],
+    [0x1e, mode(5, false, 2, 6, [6, 6, 6], 'rw5:0 gz4 bz0 bz1 by4 gw5:0 gy5 by5 bz2 gy4 bw5:0 gz5 bz3 bz5 bz4 rx5:0 gy3:0 gx5:0 gz3:0 bx5:0 by3:0 ry5:0 rz5:0 d4:0')],
+    [0x03, mode(5, false, 1, 10, [10, 10, 10], 'rw9:0 gw9:0 bw9:0 rx9:0 gx9:0 bx9:0')],
+    [0x07, mode(5, true, 1, 11, [9, 9, 9], 'rw9:0 gw9:0 bw9:0 rx8:0 rw10 gx8:0 gw10 bx8:0 bw10')],
+    [0x0b, mode(5, true, 1, 12, [8, 8, 8], 'rw9:0 gw9:0 bw9:0 rx7:0 rw10:11 gx7:0 gw10:11 bx7:0 bw10:11')],
+    [0x0f, mode(5, true, 1, 16, [4, 4, 4], 'rw9:0 gw9:0 bw9:0 rx3:0 rw10:15 gx3:0 gw10:15 bx3:0 bw10:15')]
+]);
+
+class Bc6hBlock {
+    private readonly bytes: Uint8Array;
+    private position = 0;
+
+    constructor(bytes: Uint8Array) {
+        this.bytes = bytes;
+    }
+
+    private readBit(): number {
+        const bit = (this.bytes[this.position >> 3] >> (this.position & 7)) & 1;
+        this.position++;
+        return bit;
+    }
+
+    private readBits(count: number): number {
+        let value = 0;
+        for (let i = 0; i < count; i++) {
+            value |= this.readBit() << i;
+        }
+        return value;
+    }
+
+    /**
+     * Decode the block to 16 RGB half-float bit patterns
+     */
+    decode(signed: boolean): Uint16Array {
+        const output = new Uint16Array(16 * 3);
+
+        let modeValue = this.readBits(2);
+        if (modeValue > 1) {
+            modeValue |= this.readBits(3) << 2;
+        }
+
+        const info = MODES.get(modeValue);
+        if (!info) {
+            // Reserved mode - decodes to black
+            return output;
+        }
+
+        // endpoints[endpoint][channel]
+        const endpoints = [[0, 0, 0], [0, 0, 0], [0, 0, 0], [0, 0, 0]];
+        let partition = 0;
+        for (const field of info.fields) {
+            for (const bit of field.bits) {
+                const value = this.readBit();
+                if (field.endpoint < 0) {
+                    partition |= value << bit;
+                } else {
+                    endpoints[field.endpoint][field.channel] |= value << bit;
+                }
+            }
+        }
+
+        const endpointCount = info.regions * 2;
+        const epb = info.endpointBits;
+
+        for (let c = 0; c < 3; c++) {
+            if (signed) {
+                endpoints[0][c] = signExtend(endpoints[0][c], epb);
+            }
+            if (signed || info.transformed) {
+                for (let e = 1; e < endpointCount; e++) {
+                    endpoints[e][c] = signExtend(endpoints[e][c], info.deltaBits[c]);
+                }
+            }
+            if (info.transformed) {
+                const mask = (1 << epb) - 1;
+                for (let e = 1; e < endpointCount; e++) {
+                    endpoints[e][c] = (endpoints[0][c] + endpoints[e][c]) & mask;
+                    if (signed) {
+                        endpoints[e][c] = signExtend(endpoints[e][c], epb);
+                    }
+                }
+            }
+            for (let e = 0; e < endpointCount; e++) {
+                endpoints[e][c] = unquantize(endpoints[e][c], epb, signed);
+            }
+        }
+
+        const indexBits = info.regions === 2 ? 3 : 4;
+        const weights = info.regions === 2 ? WEIGHTS_3 : WEIGHTS_4;
+        const anchor = info.regions === 2 ? SUBSETS_2_ANCHOR_INDICES[partition] : 0;
+
+        for (let i = 0; i < 16; i++) {
+            const isAnchor = i === 0 || (info.regions === 2 && i === anchor);
+            const index = this.readBits(isAnchor ? indexBits - 1 : indexBits);
+            const region = info.regions === 2 ? SUBSETS_2_PARTITION_TABLE[partition][i] : 0;
+            const e0 = endpoints[region * 2];
+            const e1 = endpoints[region * 2 + 1];
+            const w = weights[index];
+
+            for (let c = 0; c < 3; c++) {
+                const value = ((64 - w) * e0[c] + w * e1[c] + 32) >> 6;
+                output[i * 3 + c] = finishUnquantize(value, signed);
+            }
+        }
+
+        return output;
+    }
+}
+
+function signExtend(value: number, bits: number): number {
+    const shift = 32 - bits;
+    return (value << shift) >> shift;
+}
+
+function unquantize(comp: number, bits: number, signed: boolean): number {
+    if (signed) {
+        if (bits >= 16) {
+            return comp;
+        }
+        const negative = comp < 0;
+        const magnitude = Math.abs(comp);
+        let unq: number;
+        if (magnitude === 0) {
+            unq = 0;
+        } else if (magnitude >= (1 << (bits - 1)) - 1) {
+            unq = 0x7fff;
+        } else {
+            unq = ((magnitude << 15) + 0x4000) >> (bits - 1);
+        }
+        return negative ? -unq : unq;
+    }
+
+    if (bits >= 15) {
+        return comp;
+    }
+    if (comp === 0) {
+        return 0;
+    }
+    if (comp === (1 << bits) - 1) {
+        return 0xffff;
+    }
+    return ((comp << 16) + 0x8000) >> bits;
+}
+
+function finishUnquantize(comp: number, signed: boolean): number {
+    if (signed) {
+        return comp < 0 ? 0x8000 | (((-comp) * 31) >> 5) : (comp * 31) >> 5;
+    }
+    return (comp * 31) >> 6;
+}
+
+/**
+ * Decode BC6H blocks to linear RGB floats (3 floats per pixel)
+ */
+export function decodeBC6H(data: DataView, width: number, height: number, signed = false): Float32Array {
+    const rgb = new Float32Array(width * height * 3);
+    const blocksX = Math.ceil(width / 4);
+    const blocksY = Math.ceil(height / 4);
+
+    let offset = 0;
+    for (let by = 0; by < blocksY; by++) {
+        for (let bx = 0; bx < blocksX; bx++) {
+            const blockData = new Uint8Array(data.buffer, data.byteOffset + offset, 16);
+            const halves = new Bc6hBlock(blockData).decode(signed);
+
+            for (let y = 0; y < 4; y++) {
+                for (let x = 0; x < 4; x++) {
+                    const px = bx * 4 + x;
+                    const py = by * 4 + y;
+
+                    if (px < width && py < height) {
+                        const srcIdx = (y * 4 + x) * 3;
+                        const dstIdx = (py * width + px) * 3;
+                        rgb[dstIdx] = halfToFloat(halves[srcIdx]);
+                        rgb[dstIdx + 1] = halfToFloat(halves[srcIdx + 1]);
+                        rgb[dstIdx + 2] = halfToFloat(halves[srcIdx + 2]);
+                    }
+                }
+            }
+
+            offset += 16;
+        }
+    }
+
+    return rgb;
+}
+
+/**
+ * Tone map linear RGB floats (e.g. from decodeBC6H) to displayable RGBA8
+ * using exposure, Reinhard operator and sRGB gamma
+ */
+export function toneMapRgbFloat(rgb: Float32Array, exposure = 1): Uint8Array {
+    const pixelCount = Math.floor(rgb.length / 3);
+    const rgba = new Uint8Array(pixelCount * 4);
+
+    for (let i = 0; i < pixelCount; i++) {
+        for (let c = 0; c < 3; c++) {
+            const value = Math.max(0, rgb[i * 3 + c] * exposure);
+            const mapped = value / (1 + value);
+            rgba[i * 4 + c] = Math.round(linearToSrgb(mapped) * 255);
+        }
+        rgba[i * 4 + 3] = 255;
+    }
+
+    return rgba;
+}
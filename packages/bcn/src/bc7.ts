@@ -3,6 +3,7 @@
  * Source: https://github.com/Nominom/BCnEncoder.NET
  */
 
+import { RgbaImage } from '@bis-toolkit/utils';
 import { ColorRgba32 } from './utils';
 
 // ByteHelper utilities
@@ -52,9 +53,9 @@ class ByteHelper {
 }
 
 // Interpolation weights
-const COLOR_WEIGHTS_2 = [0, 21, 43, 64];
-const COLOR_WEIGHTS_3 = [0, 9, 18, 27, 37, 46, 55, 64];
-const COLOR_WEIGHTS_4 = [0, 4, 9, 13, 17, 21, 26, 30, 34, 38, 43, 47, 51, 55, 60, 64];
+export const COLOR_WEIGHTS_2 = [0, 21, 43, 64];
+export const COLOR_WEIGHTS_3 = [0, 9, 18, 27, 37, 46, 55, 64];
+export const COLOR_WEIGHTS_4 = [0, 4, 9, 13, 17, 21, 26, 30, 34, 38, 43, 47, 51, 55, 60, 64];
 
 function interpolateByte(e0: number, e1: number, index: number, indexPrecision: number): number {
     if (indexPrecision === 0) return e0;
@@ -68,7 +69,7 @@ function interpolateByte(e0: number, e1: number, index: number, indexPrecision:
 }
 
 // Partition tables (complete 64 patterns)
-const SUBSETS_2_PARTITION_TABLE = [
+export const SUBSETS_2_PARTITION_TABLE = [
     [0,0,1,1,0,0,1,1,0,0,1,1,0,0,1,1],[0,0,0,1,0,0,0,1,0,0,0,1,0,0,0,1],
     [0,1,1,1,0,1,1,1,0,1,1,1,0,1,1,1],[0,0,0,1,0,0,1,1,0,0,1,1,0,1,1,1],
     [0,0,0,0,0,0,0,1,0,0,0,1,0,0,1,1],[0,0,1,1,0,1,1,1,0,1,1,1,1,1,1,1],
@@ -103,7 +104,7 @@ const SUBSETS_2_PARTITION_TABLE = [
     [0,0,1,0,0,0,1,0,1,1,1,0,1,1,1,0],[0,1,0,0,0,1,0,0,0,1,1,1,0,1,1,1]
 ];
 
-const SUBSETS_3_PARTITION_TABLE = [
+export const SUBSETS_3_PARTITION_TABLE = [
     [0,0,1,1,0,0,1,1,0,2,2,1,2,2,2,2],[0,0,0,1,0,0,1,1,2,2,1,1,2,2,2,1],
     [0,0,0,0,2,0,0,1,2,2,1,1,2,2,1,1],[0,2,2,2,0,0,2,2,0,0,1,1,0,1,1,1],
     [0,0,0,0,0,0,0,0,1,1,2,2,1,1,2,2],[0,0,1,1,0,0,1,1,0,0,2,2,0,0,2,2],
@@ -138,21 +139,21 @@ const SUBSETS_3_PARTITION_TABLE = [
     [0,1,0,1,2,2,2,2,2,2,2,2,2,2,2,2],[0,1,1,1,2,0,1,1,2,2,0,1,2,2,2,0]
 ];
 
-const SUBSETS_2_ANCHOR_INDICES = [
+export const SUBSETS_2_ANCHOR_INDICES = [
     15,15,15,15,15,15,15,15,15,15,15,15,15,15,15,15,
     15,2,8,2,2,8,8,15,2,8,2,2,8,8,2,2,
     15,15,6,8,2,8,15,15,2,8,2,2,2,15,15,6,
     6,2,6,8,15,15,2,2,15,15,15,15,15,2,2,15
 ];
 
-const SUBSETS_3_ANCHOR_INDICES_2 = [
+export const SUBSETS_3_ANCHOR_INDICES_2 = [
     3,3,15,15,8,3,15,15,8,8,6,6,6,5,3,3,
     3,3,8,15,3,3,6,10,5,8,8,6,8,5,15,15,
     8,15,3,5,6,10,8,15,15,3,15,5,15,15,15,15,
     3,15,5,5,5,8,5,10,5,10,8,13,15,12,3,3
 ];
 
-const SUBSETS_3_ANCHOR_INDICES_3 = [
+export const SUBSETS_3_ANCHOR_INDICES_3 = [
     15,8,8,3,15,15,3,8,15,15,15,15,15,15,15,8,
     15,8,15,3,15,8,15,8,3,15,6,10,15,15,10,8,
     15,3,15,10,10,8,9,10,6,15,8,15,3,6,6,8,
@@ -562,7 +563,7 @@ class Bc7Block {
     }
 }
 
-export function decodeBC7(imageData: DataView, width: number, height: number): Uint8Array {
+export function decodeBC7(imageData: DataView, width: number, height: number): RgbaImage {
     const rgba = new Uint8Array(width * height * 4);
     const blocksX = Math.ceil(width / 4);
     const blocksY = Math.ceil(height / 4);
@@ -598,5 +599,5 @@ export function decodeBC7(imageData: DataView, width: number, height: number): U
         }
     }
 
-    return rgba;
+    return new RgbaImage(width, height, rgba);
 }
@@ -0,0 +1,604 @@
+/**
+ * BC7 Encoder - searches modes, partitions, rotations and p-bits per block
+ */
+
+import {
+    COLOR_WEIGHTS_2,
+    COLOR_WEIGHTS_3,
+    COLOR_WEIGHTS_4,
+    SUBSETS_2_ANCHOR_INDICES,
+    SUBSETS_2_PARTITION_TABLE,
+    SUBSETS_3_ANCHOR_INDICES_2,
+    SUBSETS_3_ANCHOR_INDICES_3,
+    SUBSETS_3_PARTITION_TABLE
+} from './bc7';
+import { type BcEncoderOptions, type BcEncoderQuality, encodeBlocks } from './encoderUtils';
+
+export interface BC7EncoderOptions extends BcEncoderOptions {
+    /** Modes (0-7) to search, defaults to the modes of the quality preset */
+    modes?: number[];
+}
+
+interface ModeInfo {
+    subsets: number;
+    partitionBits: number;
+    rotationBits: number;
+    indexModeBits: number;
+    /** Endpoint bits per color channel, without the p-bit */
+    colorBits: number;
+    /** Endpoint bits for alpha, 0 when the mode has no alpha */
+    alphaBits: number;
+    pBits: 'none' | 'unique' | 'shared';
+    indexBits: number;
+    /** Bits of the separate alpha index set (modes 4 and 5) */
+    secondaryIndexBits: number;
+}
+
+const MODES: ModeInfo[] = [
+    { subsets: 3, partitionBits: 4, rotationBits: 0, indexModeBits: 0, colorBits: 4, alphaBits: 0, pBits: 'unique', indexBits: 3, secondaryIndexBits: 0 },
+    { subsets: 2, partitionBits: 6, rotationBits: 0, indexModeBits: 0, colorBits: 6, alphaBits: 0, pBits: 'shared', indexBits: 3, secondaryIndexBits: 0 },
+    { subsets: 3, partitionBits: 6, rotationBits: 0, indexModeBits: 0, colorBits: 5, alphaBits: 0, pBits: 'none', indexBits: 2, secondaryIndexBits: 0 },
+    { subsets: 2, partitionBits: 6, rotationBits: 0, indexModeBits: 0, colorBits: 7, alphaBits: 0, pBits: 'unique', indexBits: 2, secondaryIndexBits: 0 },
+    { subsets: 1, partitionBits: 0, rotationBits: 2, indexModeBits: 1, colorBits: 5, alphaBits: 6, pBits: 'none', indexBits: 2, secondaryIndexBits: 3 },
+    { subsets: 1, partitionBits: 0, rotationBits: 2, indexModeBits: 0, colorBits: 7, alphaBits: 8, pBits: 'none', indexBits: 2, secondaryIndexBits: 2 },
+    { subsets: 1, partitionBits: 0, rotationBits: 0, indexModeBits: 0, colorBits: 7, alphaBits: 7, pBits: 'unique', indexBits: 4, secondaryIndexBits: 0 },
+    { subsets: 2, partitionBits: 6, rotationBits: 0, indexModeBits: 0, colorBits: 5, alphaBits: 5, pBits: 'unique', indexBits: 2, secondaryIndexBits: 0 },
+];
+
+interface Preset {
+    modes: number[];
+    /** Number of best-scoring partitions to fully encode */
+    partitions: number;
+    rotations: boolean;
+    refineIterations: number;
+}
+
+const PRESETS: Record<BcEncoderQuality, Preset> = {
+    fast: { modes: [1, 3, 5, 6, 7], partitions: 1, rotations: false, refineIterations: 0 },
+    normal: { modes: [0, 1, 2, 3, 4, 5, 6, 7], partitions: 4, rotations: false, refineIterations: 1 },
+    high: { modes: [0, 1, 2, 3, 4, 5, 6, 7], partitions: 16, rotations: true, refineIterations: 2 },
+};
+
+const P_BIT_COMBINATIONS = {
+    none: [[0, 0]],
+    unique: [[0, 0], [0, 1], [1, 0], [1, 1]],
+    shared: [[0, 0], [1, 1]],
+};
+
+type Pixel = [number, number, number, number];
+
+interface SubsetEncoding {
+    /** Quantized endpoints per channel (RGBA), without p-bits */
+    endpoints: [number[], number[]];
+    pBits: number[];
+    error: number;
+}
+
+interface Candidate {
+    mode: number;
+    partition: number;
+    rotation: number;
+    indexMode: number;
+    subsets: SubsetEncoding[];
+    /** Alpha endpoints of modes 4/5, encoded separately from the color */
+    alpha: SubsetEncoding | null;
+    colorIndices: number[];
+    alphaIndices: number[];
+    error: number;
+}
+
+function weightsFor(bits: number): number[] {
+    return bits === 2 ? COLOR_WEIGHTS_2 : bits === 3 ? COLOR_WEIGHTS_3 : COLOR_WEIGHTS_4;
+}
+
+function interpolate(e0: number, e1: number, weight: number): number {
+    return ((64 - weight) * e0 + weight * e1 + 32) >> 6;
+}
+
+// Expand a quantized endpoint the way the decoder does
+function unquantize(raw: number, pBit: number, bits: number, hasPBit: boolean): number {
+    const value = hasPBit ? (raw << 1) | pBit : raw;
+    const precision = hasPBit ? bits + 1 : bits;
+    return precision >= 8 ? value : (value << (8 - precision)) | (value >> (2 * precision - 8));
+}
+
+function quantize(value: number, pBit: number, bits: number, hasPBit: boolean): number {
+    const max = (1 << bits) - 1;
+    const estimate = Math.round(Math.min(255, Math.max(0, value)) * max / 255);
+    let best = estimate;
+    let bestError = Infinity;
+    for (let raw = Math.max(0, estimate - 1); raw <= Math.min(max, estimate + 1); raw++) {
+        const error = Math.abs(unquantize(raw, pBit, bits, hasPBit) - value);
+        if (error < bestError) {
+            bestError = error;
+            best = raw;
+        }
+    }
+    return best;
+}
+
+function getPartitionTable(subsets: number, partition: number): number[] | null {
+    if (subsets === 2) return SUBSETS_2_PARTITION_TABLE[partition];
+    if (subsets === 3) return SUBSETS_3_PARTITION_TABLE[partition];
+    return null;
+}
+
+function getAnchors(subsets: number, partition: number): number[] {
+    if (subsets === 2) return [0, SUBSETS_2_ANCHOR_INDICES[partition]];
+    if (subsets === 3) return [0, SUBSETS_3_ANCHOR_INDICES_2[partition], SUBSETS_3_ANCHOR_INDICES_3[partition]];
+    return [0];
+}
+
+/**
+ * Mean and dominant axis (unit length) of the pixels over the given channels
+ */
+function principalAxis(pixels: Pixel[], channels: number[]): { mean: number[]; axis: number[]; residual: number } {
+    const n = channels.length;
+    const mean = new Array<number>(n).fill(0);
+    for (const pixel of pixels) {
+        for (let c = 0; c < n; c++) {
+            mean[c] += pixel[channels[c]];
+        }
+    }
+    for (let c = 0; c < n; c++) {
+        mean[c] /= pixels.length;
+    }
+
+    const cov = new Array<number>(n * n).fill(0);
+    let total = 0;
+    for (const pixel of pixels) {
+        for (let a = 0; a < n; a++) {
+            const da = pixel[channels[a]] - mean[a];
+            total += da * da;
+            for (let b = 0; b < n; b++) {
+                cov[a * n + b] += da * (pixel[channels[b]] - mean[b]);
+            }
+        }
+    }
+
+    let axis = new Array<number>(n).fill(1);
+    let eigenvalue = 0;
+    for (let iteration = 0; iteration < 8; iteration++) {
+        const next = new Array<number>(n).fill(0);
+        for (let a = 0; a < n; a++) {
+            for (let b = 0; b < n; b++) {
+                next[a] += cov[a * n + b] * axis[b];
+            }
+        }
+        const length = Math.sqrt(next.reduce((sum, v) => sum + v * v, 0));
+        if (length === 0) {
+            axis = new Array<number>(n).fill(0);
+            eigenvalue = 0;
+            break;
+        }
+        axis = next.map(v => v / length);
+        eigenvalue = length;
+    }
+
+    // Squared distance of the pixels from the fitted line
+    return { mean, axis, residual: Math.max(0, total - eigenvalue) };
+}
+
+function rangeFit(pixels: Pixel[], channels: number[]): [number[], number[]] {
+    const { mean, axis } = principalAxis(pixels, channels);
+    let minT = 0;
+    let maxT = 0;
+    for (const pixel of pixels) {
+        let t = 0;
+        for (let c = 0; c < channels.length; c++) {
+            t += (pixel[channels[c]] - mean[c]) * axis[c];
+        }
+        minT = Math.min(minT, t);
+        maxT = Math.max(maxT, t);
+    }
+
+    const clamp = (v: number): number => Math.min(255, Math.max(0, v));
+    return [
+        mean.map((m, c) => clamp(m + axis[c] * minT)),
+        mean.map((m, c) => clamp(m + axis[c] * maxT)),
+    ];
+}
+
+/**
+ * Least-squares endpoints for fixed indices
+ */
+function refineEndpoints(pixels: Pixel[], channels: number[], indices: number[], weights: number[]): [number[], number[]] | null {
+    let alpha2 = 0, beta2 = 0, alphaBeta = 0;
+    const alphaX = new Array<number>(channels.length).fill(0);
+    const betaX = new Array<number>(channels.length).fill(0);
+    for (let i = 0; i < pixels.length; i++) {
+        const w = weights[indices[i]] / 64;
+        const a = 1 - w;
+        alpha2 += a * a;
+        beta2 += w * w;
+        alphaBeta += a * w;
+        for (let c = 0; c < channels.length; c++) {
+            alphaX[c] += a * pixels[i][channels[c]];
+            betaX[c] += w * pixels[i][channels[c]];
+        }
+    }
+
+    const det = alpha2 * beta2 - alphaBeta * alphaBeta;
+    if (Math.abs(det) < 1e-8) {
+        return null;
+    }
+
+    const clamp = (v: number): number => Math.min(255, Math.max(0, v));
+    return [
+        channels.map((_, c) => clamp((alphaX[c] * beta2 - betaX[c] * alphaBeta) / det)),
+        channels.map((_, c) => clamp((betaX[c] * alpha2 - alphaX[c] * alphaBeta) / det)),
+    ];
+}
+
+/**
+ * Quantize endpoints for every p-bit combination and pick the best indices for the pixels.
+ * Channels without stored data (alpha in modes 0-3) are fixed at 255.
+ */
+function quantizeAndFit(
+    pixels: Pixel[],
+    channels: number[],
+    ideal: [number[], number[]],
+    mode: ModeInfo,
+    indexBits: number,
+    indices: number[]
+): SubsetEncoding {
+    const hasPBit = mode.pBits !== 'none';
+    const weights = weightsFor(indexBits);
+    const combined = mode.secondaryIndexBits === 0;
+    const opaque = mode.alphaBits === 0;
+    // Opaque pixels keep alpha at exactly 255: maximal alpha endpoints, and set p-bits where alpha shares them
+    const opaqueAlpha = channels.includes(3) && pixels.every(pixel => pixel[3] === 255);
+
+    let best: SubsetEncoding = { endpoints: [[0, 0, 0, 0], [0, 0, 0, 0]], pBits: [0, 0], error: Infinity };
+    const trial = new Array<number>(pixels.length);
+    const palette: number[][] = weights.map(() => new Array<number>(channels.length).fill(0));
+
+    for (const pBits of P_BIT_COMBINATIONS[mode.pBits]) {
+        if (opaqueAlpha && hasPBit && (pBits[0] === 0 || pBits[1] === 0)) {
+            continue;
+        }
+        const endpoints: [number[], number[]] = [[0, 0, 0, 0], [0, 0, 0, 0]];
+        const expanded: [number[], number[]] = [[], []];
+        for (let e = 0; e < 2; e++) {
+            for (let c = 0; c < channels.length; c++) {
+                const bits = channels[c] === 3 ? mode.alphaBits : mode.colorBits;
+                const raw = opaqueAlpha && channels[c] === 3 ? (1 << bits) - 1 : quantize(ideal[e][c], pBits[e], bits, hasPBit);
+                endpoints[e][channels[c]] = raw;
+                expanded[e][c] = unquantize(raw, pBits[e], bits, hasPBit);
+            }
+        }
+        for (let k = 0; k < weights.length; k++) {
+            for (let c = 0; c < channels.length; c++) {
+                palette[k][c] = interpolate(expanded[0][c], expanded[1][c], weights[k]);
+            }
+        }
+
+        let error = 0;
+        for (let i = 0; i < pixels.length; i++) {
+            let bestIndex = 0;
+            let bestError = Infinity;
+            for (let k = 0; k < weights.length; k++) {
+                let distance = 0;
+                for (let c = 0; c < channels.length; c++) {
+                    const d = pixels[i][channels[c]] - palette[k][c];
+                    distance += d * d;
+                }
+                if (distance < bestError) {
+                    bestError = distance;
+                    bestIndex = k;
+                }
+            }
+            trial[i] = bestIndex;
+            error += bestError;
+            if (combined && opaque) {
+                error += (255 - pixels[i][3]) * (255 - pixels[i][3]);
+            }
+        }
+
+        if (error < best.error) {
+            best = { endpoints, pBits: [pBits[0], pBits[1]], error };
+            for (let i = 0; i < pixels.length; i++) {
+                indices[i] = trial[i];
+            }
+        }
+    }
+
+    return best;
+}
+
+function fitSubset(
+    pixels: Pixel[],
+    channels: number[],
+    mode: ModeInfo,
+    indexBits: number,
+    refineIterations: number,
+    indices: number[]
+): SubsetEncoding {
+    let best = quantizeAndFit(pixels, channels, rangeFit(pixels, channels), mode, indexBits, indices);
+
+    const trial = new Array<number>(pixels.length);
+    for (let iteration = 0; iteration < refineIterations && best.error > 0; iteration++) {
+        const refined = refineEndpoints(pixels, channels, indices, weightsFor(indexBits));
+        if (refined === null) {
+            break;
+        }
+        const encoding = quantizeAndFit(pixels, channels, refined, mode, indexBits, trial);
+        if (encoding.error >= best.error) {
+            break;
+        }
+        best = encoding;
+        for (let i = 0; i < pixels.length; i++) {
+            indices[i] = trial[i];
+        }
+    }
+
+    return best;
+}
+
+function encodeCandidate(block: Pixel[], modeIndex: number, partition: number, rotation: number, indexMode: number, preset: Preset): Candidate {
+    const mode = MODES[modeIndex];
+    const table = getPartitionTable(mode.subsets, partition);
+
+    // Rotation swaps alpha with one of the color channels before encoding
+    const pixels = rotation === 0 ? block : block.map((pixel): Pixel => {
+        const rotated: Pixel = [pixel[0], pixel[1], pixel[2], pixel[3]];
+        rotated[rotation - 1] = pixel[3];
+        rotated[3] = pixel[rotation - 1];
+        return rotated;
+    });
+
+    const separateAlpha = mode.secondaryIndexBits > 0;
+    const colorIndexBits = modeIndex === 4 && indexMode === 1 ? 3 : mode.indexBits;
+    const alphaIndexBits = modeIndex === 4 && indexMode === 1 ? 2 : mode.secondaryIndexBits;
+    const channels = mode.alphaBits > 0 && !separateAlpha ? [0, 1, 2, 3] : [0, 1, 2];
+
+    const candidate: Candidate = {
+        mode: modeIndex,
+        partition,
+        rotation,
+        indexMode,
+        subsets: [],
+        alpha: null,
+        colorIndices: new Array<number>(16).fill(0),
+        alphaIndices: new Array<number>(16).fill(0),
+        error: 0,
+    };
+
+    for (let subset = 0; subset < mode.subsets; subset++) {
+        const members: number[] = [];
+        for (let i = 0; i < 16; i++) {
+            if (table === null || table[i] === subset) {
+                members.push(i);
+            }
+        }
+
+        const subsetPixels = members.map(i => pixels[i]);
+        const indices = new Array<number>(members.length);
+        const encoding = fitSubset(subsetPixels, channels, mode, colorIndexBits, preset.refineIterations, indices);
+        members.forEach((pixel, i) => (candidate.colorIndices[pixel] = indices[i]));
+        candidate.subsets.push(encoding);
+        candidate.error += encoding.error;
+    }
+
+    if (separateAlpha) {
+        const indices = new Array<number>(16);
+        candidate.alpha = fitSubset(pixels, [3], mode, alphaIndexBits, preset.refineIterations, indices);
+        candidate.alphaIndices = indices;
+        candidate.error += candidate.alpha.error;
+    }
+
+    return candidate;
+}
+
+/**
+ * Partitions ordered by how well each subset fits a line
+ */
+function rankPartitions(block: Pixel[], subsets: number, count: number): number[] {
+    const channels = [0, 1, 2, 3];
+    const scores: { partition: number; score: number }[] = [];
+    for (let partition = 0; partition < count; partition++) {
+        const table = getPartitionTable(subsets, partition);
+        let score = 0;
+        for (let subset = 0; subset < subsets; subset++) {
+            const members = block.filter((_, i) => table?.[i] === subset);
+            if (members.length > 1) {
+                score += principalAxis(members, channels).residual;
+            }
+        }
+        scores.push({ partition, score });
+    }
+    scores.sort((a, b) => a.score - b.score);
+    return scores.map(s => s.partition);
+}
+
+class BitWriter {
+    private readonly bytes: Uint8Array;
+    private position = 0;
+
+    constructor(bytes: Uint8Array) {
+        this.bytes = bytes;
+    }
+
+    write(value: number, bitCount: number): void {
+        for (let i = 0; i < bitCount; i++) {
+            if ((value >> i) & 1) {
+                this.bytes[(this.position + i) >> 3] |= 1 << ((this.position + i) & 7);
+            }
+        }
+        this.position += bitCount;
+    }
+}
+
+/**
+ * Swap endpoints wherever an anchor index has its most significant bit set,
+ * since the anchor MSB is implicitly zero in the encoded block
+ */
+function fixAnchors(candidate: Candidate, colorIndexBits: number, alphaIndexBits: number): void {
+    const mode = MODES[candidate.mode];
+    const table = getPartitionTable(mode.subsets, candidate.partition);
+    const anchors = getAnchors(mode.subsets, candidate.partition);
+    const colorChannels = mode.secondaryIndexBits > 0 ? [0, 1, 2] : [0, 1, 2, 3];
+
+    for (let subset = 0; subset < mode.subsets; subset++) {
+        const maxIndex = (1 << colorIndexBits) - 1;
+        if (candidate.colorIndices[anchors[subset]] <= maxIndex >> 1) {
+            continue;
+        }
+
+        const encoding = candidate.subsets[subset];
+        for (const c of colorChannels) {
+            [encoding.endpoints[0][c], encoding.endpoints[1][c]] = [encoding.endpoints[1][c], encoding.endpoints[0][c]];
+        }
+        encoding.pBits = [encoding.pBits[1], encoding.pBits[0]];
+        for (let i = 0; i < 16; i++) {
+            if (table === null || table[i] === subset) {
+                candidate.colorIndices[i] = maxIndex - candidate.colorIndices[i];
+            }
+        }
+    }
+
+    if (candidate.alpha !== null) {
+        const maxIndex = (1 << alphaIndexBits) - 1;
+        if (candidate.alphaIndices[0] > maxIndex >> 1) {
+            const endpoints = candidate.alpha.endpoints;
+            [endpoints[0][3], endpoints[1][3]] = [endpoints[1][3], endpoints[0][3]];
+            candidate.alphaIndices = candidate.alphaIndices.map(index => maxIndex - index);
+        }
+    }
+}
+
+function writeIndices(writer: BitWriter, indices: number[], bits: number, anchors: number[]): void {
+    for (let i = 0; i < 16; i++) {
+        writer.write(indices[i], anchors.includes(i) ? bits - 1 : bits);
+    }
+}
+
+function packCandidate(candidate: Candidate, out: DataView, offset: number): void {
+    const mode = MODES[candidate.mode];
+    const swapIndexSets = candidate.mode === 4 && candidate.indexMode === 1;
+    const colorIndexBits = swapIndexSets ? 3 : mode.indexBits;
+    const alphaIndexBits = swapIndexSets ? 2 : mode.secondaryIndexBits;
+    fixAnchors(candidate, colorIndexBits, alphaIndexBits);
+
+    const bytes = new Uint8Array(16);
+    const writer = new BitWriter(bytes);
+    writer.write(1 << candidate.mode, candidate.mode + 1);
+    writer.write(candidate.partition, mode.partitionBits);
+    writer.write(candidate.rotation, mode.rotationBits);
+    writer.write(candidate.indexMode, mode.indexModeBits);
+
+    // Endpoints are stored channel by channel, subset endpoints interleaved
+    const endpoints = candidate.subsets.flatMap(subset => subset.endpoints);
+    for (let c = 0; c < 3; c++) {
+        for (const endpoint of endpoints) {
+            writer.write(endpoint[c], mode.colorBits);
+        }
+    }
+    if (mode.alphaBits > 0) {
+        const alphaEndpoints = candidate.alpha !== null ? candidate.alpha.endpoints : endpoints;
+        for (const endpoint of alphaEndpoints) {
+            writer.write(endpoint[3], mode.alphaBits);
+        }
+    }
+
+    if (mode.pBits === 'unique') {
+        for (const subset of candidate.subsets) {
+            writer.write(subset.pBits[0], 1);
+            writer.write(subset.pBits[1], 1);
+        }
+    } else if (mode.pBits === 'shared') {
+        for (const subset of candidate.subsets) {
+            writer.write(subset.pBits[0], 1);
+        }
+    }
+
+    const anchors = getAnchors(mode.subsets, candidate.partition);
+    if (candidate.mode === 4) {
+        // The 2-bit index set is always stored first
+        writeIndices(writer, swapIndexSets ? candidate.alphaIndices : candidate.colorIndices, 2, anchors);
+        writeIndices(writer, swapIndexSets ? candidate.colorIndices : candidate.alphaIndices, 3, anchors);
+    } else {
+        writeIndices(writer, candidate.colorIndices, colorIndexBits, anchors);
+        if (candidate.alpha !== null) {
+            writeIndices(writer, candidate.alphaIndices, alphaIndexBits, anchors);
+        }
+    }
+
+    for (let i = 0; i < 16; i++) {
+        out.setUint8(offset + i, bytes[i]);
+    }
+}
+
+function encodeBlock(rgba: Uint8Array, modes: number[], preset: Preset, out: DataView, offset: number): void {
+    const block: Pixel[] = [];
+    let opaque = true;
+    for (let i = 0; i < 16; i++) {
+        block.push([rgba[i * 4], rgba[i * 4 + 1], rgba[i * 4 + 2], rgba[i * 4 + 3]]);
+        opaque &&= rgba[i * 4 + 3] === 255;
+    }
+
+    let best: Candidate | null = null;
+    const consider = (candidate: Candidate): Candidate => (best === null || candidate.error < best.error ? candidate : best);
+
+    const ranked = new Map<string, number[]>();
+    const partitionsFor = (subsets: number, count: number): number[] => {
+        const key = `${subsets}:${count}`;
+        let partitions = ranked.get(key);
+        if (partitions === undefined) {
+            partitions = rankPartitions(block, subsets, count).slice(0, preset.partitions);
+            ranked.set(key, partitions);
+        }
+        return partitions;
+    };
+
+    for (const modeIndex of modes) {
+        const mode = MODES[modeIndex];
+        // Modes without alpha can't represent translucent blocks
+        if (mode.alphaBits === 0 && !opaque && modes.some(m => MODES[m].alphaBits > 0)) {
+            continue;
+        }
+
+        if (mode.subsets > 1) {
+            for (const partition of partitionsFor(mode.subsets, 1 << mode.partitionBits)) {
+                best = consider(encodeCandidate(block, modeIndex, partition, 0, 0, preset));
+            }
+        } else if (mode.rotationBits > 0) {
+            const rotations = preset.rotations ? [0, 1, 2, 3] : [0];
+            const indexModes = mode.indexModeBits > 0 ? [0, 1] : [0];
+            for (const rotation of rotations) {
+                for (const indexMode of indexModes) {
+                    best = consider(encodeCandidate(block, modeIndex, 0, rotation, indexMode, preset));
+                }
+            }
+        } else {
+            best = consider(encodeCandidate(block, modeIndex, 0, 0, 0, preset));
+        }
+
+        if (best?.error === 0) {
+            break;
+        }
+    }
+
+    if (best === null) {
+        throw new Error('No BC7 modes to encode with');
+    }
+    packCandidate(best, out, offset);
+}
+
+/**
+ * Encode RGBA pixels as BC7. The `fast` preset is meant for previews, `high` is the slow
+ * preset for release builds that also searches more partitions and the channel rotations.
+ */
+export function encodeBC7(rgba: Uint8Array, width: number, height: number, options: BC7EncoderOptions = {}): Uint8Array {
+    const preset = PRESETS[options.quality ?? 'normal'];
+    const modes = options.modes ?? preset.modes;
+    for (const mode of modes) {
+        if (!Number.isInteger(mode) || mode < 0 || mode > 7) {
+            throw new Error(`Invalid BC7 mode ${mode}`);
+        }
+    }
+
+    return encodeBlocks(rgba, width, height, 16, (block, out, offset) => {
+        encodeBlock(block, modes, preset, out, offset);
+    });
+}
@@ -0,0 +1,537 @@
+/**
+ * Shared utilities for BC encoders
+ */
+
+import {
+    ColorRgb565,
+    interpolateHalf,
+    interpolateThird,
+    interpolateByteFifth,
+    interpolateByteSeventh,
+    type ColorRgb24
+} from './utils';
+
+/**
+ * Encoder quality preset:
+ * - `fast`: inset bounding box endpoints
+ * - `normal`: range fit along the principal axis of the block colors
+ * - `high`: cluster fit over every ordering-preserving index assignment
+ */
+export type BcEncoderQuality = 'fast' | 'normal' | 'high';
+
+export interface BcEncoderOptions {
+    quality?: BcEncoderQuality;
+}
+
+export interface BC1EncoderOptions extends BcEncoderOptions {
+    /** Encode pixels with alpha below `alphaThreshold` as transparent (1-bit punch-through alpha) */
+    punchThroughAlpha?: boolean;
+    /** Alpha cut-off for punch-through alpha, defaults to 128 */
+    alphaThreshold?: number;
+}
+
+export interface ColorBlockOptions {
+    quality: BcEncoderQuality;
+    /** Allow the 3-color mode (BC1 only, BC2/BC3 always decode in 4-color mode) */
+    allowThreeColor: boolean;
+    /** Pixels with alpha below this value become transparent, 0 disables punch-through */
+    alphaThreshold: number;
+}
+
+type Vec3 = [number, number, number];
+
+interface ColorCandidate {
+    color0: number;
+    color1: number;
+    indices: number;
+    error: number;
+}
+
+/**
+ * Copy a 4x4 block of RGBA pixels, clamping coordinates at the image edge
+ */
+export function extractBlock(rgba: Uint8Array, width: number, height: number, bx: number, by: number, out: Uint8Array): void {
+    for (let y = 0; y < 4; y++) {
+        const py = Math.min(by * 4 + y, height - 1);
+        for (let x = 0; x < 4; x++) {
+            const px = Math.min(bx * 4 + x, width - 1);
+            const src = (py * width + px) * 4;
+            const dst = (y * 4 + x) * 4;
+            out[dst] = rgba[src];
+            out[dst + 1] = rgba[src + 1];
+            out[dst + 2] = rgba[src + 2];
+            out[dst + 3] = rgba[src + 3];
+        }
+    }
+}
+
+/**
+ * Run a block encoder over every 4x4 block of an RGBA image
+ */
+export function encodeBlocks(
+    rgba: Uint8Array,
+    width: number,
+    height: number,
+    blockSize: number,
+    encodeBlock: (block: Uint8Array, out: DataView, offset: number) => void
+): Uint8Array {
+    const blocksX = Math.ceil(width / 4);
+    const blocksY = Math.ceil(height / 4);
+    const output = new Uint8Array(blocksX * blocksY * blockSize);
+    const view = new DataView(output.buffer);
+    const block = new Uint8Array(64);
+
+    let offset = 0;
+    for (let by = 0; by < blocksY; by++) {
+        for (let bx = 0; bx < blocksX; bx++) {
+            extractBlock(rgba, width, height, bx, by, block);
+            encodeBlock(block, view, offset);
+            offset += blockSize;
+        }
+    }
+
+    return output;
+}
+
+function colorDistance(block: Uint8Array, pixel: number, color: ColorRgb24): number {
+    const dr = block[pixel * 4] - color.r;
+    const dg = block[pixel * 4 + 1] - color.g;
+    const db = block[pixel * 4 + 2] - color.b;
+    return dr * dr + dg * dg + db * db;
+}
+
+// Quantize to 565 with rounding (the ColorRgb565 constructor truncates)
+function toRgb565(color: Vec3): number {
+    const r = Math.round(Math.min(255, Math.max(0, color[0])) * 31 / 255);
+    const g = Math.round(Math.min(255, Math.max(0, color[1])) * 63 / 255);
+    const b = Math.round(Math.min(255, Math.max(0, color[2])) * 31 / 255);
+    return (r << 11) | (g << 5) | b;
+}
+
+function expand565(data: number): ColorRgb24 {
+    const color = new ColorRgb565();
+    color.data = data;
+    return color.toColorRgb24();
+}
+
+/**
+ * Pick the best palette entry for every pixel, using the same palette the decoder builds
+ */
+function buildCandidate(block: Uint8Array, transparent: boolean[], color0: number, color1: number, threeColor: boolean): ColorCandidate {
+    // The decoder selects the mode from the endpoint order
+    if (threeColor ? color0 > color1 : color0 < color1) {
+        [color0, color1] = [color1, color0];
+    }
+
+    const e0 = expand565(color0);
+    const e1 = expand565(color1);
+    const palette = threeColor || color0 === color1
+        ? [e0, e1, interpolateHalf(e0, e1)]
+        : [e0, e1, interpolateThird(e0, e1, 1), interpolateThird(e0, e1, 2)];
+
+    let indices = 0;
+    let error = 0;
+    for (let i = 0; i < 16; i++) {
+        if (transparent[i]) {
+            indices |= 3 << (i * 2);
+            continue;
+        }
+
+        let bestIndex = 0;
+        let bestError = Infinity;
+        for (let p = 0; p < palette.length; p++) {
+            const distance = colorDistance(block, i, palette[p]);
+            if (distance < bestError) {
+                bestError = distance;
+                bestIndex = p;
+            }
+        }
+        indices |= bestIndex << (i * 2);
+        error += bestError;
+    }
+
+    return { color0, color1, indices: indices >>> 0, error };
+}
+
+function boundingBoxFit(colors: Vec3[]): [Vec3, Vec3] {
+    const min: Vec3 = [255, 255, 255];
+    const max: Vec3 = [0, 0, 0];
+    for (const color of colors) {
+        for (let c = 0; c < 3; c++) {
+            min[c] = Math.min(min[c], color[c]);
+            max[c] = Math.max(max[c], color[c]);
+        }
+    }
+
+    // Inset the bounding box slightly to reduce the error of the interpolated colors
+    for (let c = 0; c < 3; c++) {
+        const inset = (max[c] - min[c]) >> 4;
+        max[c] -= inset;
+        min[c] += inset;
+    }
+
+    return [max, min];
+}
+
+function principalAxis(colors: Vec3[]): { mean: Vec3; axis: Vec3 } {
+    const mean: Vec3 = [0, 0, 0];
+    for (const color of colors) {
+        mean[0] += color[0];
+        mean[1] += color[1];
+        mean[2] += color[2];
+    }
+    mean[0] /= colors.length;
+    mean[1] /= colors.length;
+    mean[2] /= colors.length;
+
+    // Covariance matrix (symmetric, stored as xx, xy, xz, yy, yz, zz)
+    const cov = [0, 0, 0, 0, 0, 0];
+    for (const color of colors) {
+        const dx = color[0] - mean[0];
+        const dy = color[1] - mean[1];
+        const dz = color[2] - mean[2];
+        cov[0] += dx * dx;
+        cov[1] += dx * dy;
+        cov[2] += dx * dz;
+        cov[3] += dy * dy;
+        cov[4] += dy * dz;
+        cov[5] += dz * dz;
+    }
+
+    // Power iteration for the dominant eigenvector
+    let axis: Vec3 = [1, 1, 1];
+    for (let iteration = 0; iteration < 8; iteration++) {
+        const x = cov[0] * axis[0] + cov[1] * axis[1] + cov[2] * axis[2];
+        const y = cov[1] * axis[0] + cov[3] * axis[1] + cov[4] * axis[2];
+        const z = cov[2] * axis[0] + cov[4] * axis[1] + cov[5] * axis[2];
+        const length = Math.max(Math.abs(x), Math.abs(y), Math.abs(z));
+        if (length === 0) {
+            break;
+        }
+        axis = [x / length, y / length, z / length];
+    }
+
+    return { mean, axis };
+}
+
+function project(color: Vec3, axis: Vec3): number {
+    return color[0] * axis[0] + color[1] * axis[1] + color[2] * axis[2];
+}
+
+function rangeFit(colors: Vec3[]): [Vec3, Vec3] {
+    const { axis } = principalAxis(colors);
+
+    let minColor = colors[0];
+    let maxColor = colors[0];
+    let minDot = project(colors[0], axis);
+    let maxDot = minDot;
+    for (const color of colors) {
+        const dot = project(color, axis);
+        if (dot < minDot) {
+            minDot = dot;
+            minColor = color;
+        }
+        if (dot > maxDot) {
+            maxDot = dot;
+            maxColor = color;
+        }
+    }
+
+    return [maxColor, minColor];
+}
+
+// Snap a channel value to the 5- or 6-bit grid the endpoint will be stored with
+function snapToGrid(value: number, levels: number): number {
+    return Math.round(Math.min(255, Math.max(0, value)) * levels / 255) * 255 / levels;
+}
+
+/**
+ * Least-squares endpoints for every split of the axis-ordered colors into consecutive clusters,
+ * one per palette entry. Clusters get the interpolation weights of a 3- or 4-color palette.
+ */
+function clusterFit(colors: Vec3[], paletteSize: 3 | 4): [Vec3, Vec3] {
+    const { axis } = principalAxis(colors);
+    const ordered = colors.slice().sort((a, b) => project(b, axis) - project(a, axis));
+    const count = ordered.length;
+
+    // Prefix sums of the ordered colors
+    const prefix: Vec3[] = [[0, 0, 0]];
+    let squareSum = 0;
+    for (const color of ordered) {
+        const last = prefix[prefix.length - 1];
+        prefix.push([last[0] + color[0], last[1] + color[1], last[2] + color[2]]);
+        squareSum += color[0] * color[0] + color[1] * color[1] + color[2] * color[2];
+    }
+    const total = prefix[count];
+
+    const weights = paletteSize === 4 ? [1, 2 / 3, 1 / 3, 0] : [1, 1 / 2, 0];
+    let best: [Vec3, Vec3] = rangeFit(colors);
+    let bestError = Infinity;
+
+    const evaluate = (splits: number[]): void => {
+        let alpha2 = 0, beta2 = 0, alphaBeta = 0;
+        const alphaX: Vec3 = [0, 0, 0];
+        let start = 0;
+        for (let cluster = 0; cluster < paletteSize; cluster++) {
+            const end = cluster < splits.length ? splits[cluster] : count;
+            const n = end - start;
+            if (n > 0) {
+                const w = weights[cluster];
+                alpha2 += n * w * w;
+                beta2 += n * (1 - w) * (1 - w);
+                alphaBeta += n * w * (1 - w);
+                for (let c = 0; c < 3; c++) {
+                    alphaX[c] += w * (prefix[end][c] - prefix[start][c]);
+                }
+            }
+            start = end;
+        }
+
+        const det = alpha2 * beta2 - alphaBeta * alphaBeta;
+        if (Math.abs(det) < 1e-8) {
+            return;
+        }
+
+        const a: Vec3 = [0, 0, 0];
+        const b: Vec3 = [0, 0, 0];
+        let error = squareSum;
+        for (let c = 0; c < 3; c++) {
+            const betaX = total[c] - alphaX[c];
+            const levels = c === 1 ? 63 : 31;
+            a[c] = snapToGrid((alphaX[c] * beta2 - betaX * alphaBeta) / det, levels);
+            b[c] = snapToGrid((betaX * alpha2 - alphaX[c] * alphaBeta) / det, levels);
+            error += a[c] * a[c] * alpha2 + b[c] * b[c] * beta2 +
+                2 * (a[c] * b[c] * alphaBeta - a[c] * alphaX[c] - b[c] * betaX);
+        }
+
+        if (error < bestError) {
+            bestError = error;
+            best = [a, b];
+        }
+    };
+
+    if (paletteSize === 4) {
+        for (let i = 0; i <= count; i++) {
+            for (let j = i; j <= count; j++) {
+                for (let k = j; k <= count; k++) {
+                    evaluate([i, j, k]);
+                }
+            }
+        }
+    } else {
+        for (let i = 0; i <= count; i++) {
+            for (let j = i; j <= count; j++) {
+                evaluate([i, j]);
+            }
+        }
+    }
+
+    return best;
+}
+
+function fitEndpoints(colors: Vec3[], quality: BcEncoderQuality, paletteSize: 3 | 4): [Vec3, Vec3][] {
+    switch (quality) {
+        case 'fast':
+            return [boundingBoxFit(colors)];
+        case 'normal':
+            return [rangeFit(colors)];
+        case 'high':
+            return [rangeFit(colors), clusterFit(colors, paletteSize)];
+    }
+}
+
+/**
+ * Encode the colors of a 4x4 RGBA block as an 8-byte BC1 color block.
+ * Blocks with punch-through alpha use the 3-color mode, otherwise the 4-color mode is used
+ * unless the 3-color mode is allowed and gives a lower error.
+ */
+export function encodeColorBlock(block: Uint8Array, out: DataView, offset: number, options: ColorBlockOptions): void {
+    const transparent = new Array<boolean>(16);
+    const colors: Vec3[] = [];
+    for (let i = 0; i < 16; i++) {
+        transparent[i] = block[i * 4 + 3] < options.alphaThreshold;
+        if (!transparent[i]) {
+            colors.push([block[i * 4], block[i * 4 + 1], block[i * 4 + 2]]);
+        }
+    }
+
+    let best: ColorCandidate;
+    if (colors.length === 0) {
+        best = { color0: 0, color1: 0, indices: 0xFFFFFFFF, error: 0 };
+    } else {
+        const hasTransparency = colors.length < 16;
+        const candidates: ColorCandidate[] = [];
+
+        if (!hasTransparency) {
+            for (const [e0, e1] of fitEndpoints(colors, options.quality, 4)) {
+                candidates.push(buildCandidate(block, transparent, toRgb565(e0), toRgb565(e1), false));
+            }
+        }
+        if (hasTransparency || (options.allowThreeColor && options.quality !== 'fast')) {
+            for (const [e0, e1] of fitEndpoints(colors, options.quality, 3)) {
+                candidates.push(buildCandidate(block, transparent, toRgb565(e0), toRgb565(e1), true));
+            }
+        }
+
+        best = candidates.reduce((a, b) => (b.error < a.error ? b : a));
+    }
+
+    out.setUint16(offset, best.color0, true);
+    out.setUint16(offset + 2, best.color1, true);
+    out.setUint32(offset + 4, best.indices, true);
+}
+
+export type ComponentChannel = 'r' | 'g' | 'b' | 'a';
+
+export interface BC4EncoderOptions extends BcEncoderOptions {
+    /** Source channel, defaults to red */
+    channel?: ComponentChannel;
+    /** Store SNORM data; input bytes map 0..255 to -1..1 like the signed decoder output */
+    signed?: boolean;
+    /** Force the 8- or 6-interpolant endpoint mode, by default the mode with the lower error is used */
+    interpolants?: 6 | 8;
+}
+
+export interface BC5EncoderOptions extends BcEncoderOptions {
+    /** Source channels, default to red and green */
+    channel1?: ComponentChannel;
+    channel2?: ComponentChannel;
+    signed?: boolean;
+    interpolants?: 6 | 8;
+}
+
+export interface ComponentBlockOptions {
+    quality: BcEncoderQuality;
+    signed: boolean;
+    interpolants?: 6 | 8;
+}
+
+export const CHANNEL_INDEX: Record<ComponentChannel, number> = { r: 0, g: 1, b: 2, a: 3 };
+
+/**
+ * Component palette exactly as the BC3/BC4/BC5 decoders build it.
+ * Signed palettes are in the -127..127 range.
+ */
+function componentPalette(c0: number, c1: number, signed: boolean): number[] {
+    const palette = [c0, c1];
+    if (c0 > c1) {
+        for (let step = 1; step <= 6; step++) {
+            palette.push(signed ? ((7 - step) * c0 + step * c1) / 7 : interpolateByteSeventh(c0, c1, step));
+        }
+    } else {
+        for (let step = 1; step <= 4; step++) {
+            palette.push(signed ? ((5 - step) * c0 + step * c1) / 5 : interpolateByteFifth(c0, c1, step));
+        }
+        palette.push(signed ? -127 : 0, signed ? 127 : 255);
+    }
+    return palette;
+}
+
+function evaluateComponentEndpoints(values: number[], c0: number, c1: number, signed: boolean, indices: number[]): number {
+    const palette = componentPalette(c0, c1, signed);
+    let error = 0;
+    for (let i = 0; i < 16; i++) {
+        let bestIndex = 0;
+        let bestError = Infinity;
+        for (let p = 0; p < 8; p++) {
+            const distance = (values[i] - palette[p]) * (values[i] - palette[p]);
+            if (distance < bestError) {
+                bestError = distance;
+                bestIndex = p;
+            }
+        }
+        indices[i] = bestIndex;
+        error += bestError;
+    }
+    return error;
+}
+
+/**
+ * Encode one channel of a 4x4 RGBA block as an 8-byte BC3/BC4/BC5 component block.
+ * `fast` only tries the 8-interpolant mode, `normal` picks the better of both modes and
+ * `high` additionally searches the neighbourhood of the endpoints.
+ */
+export function encodeComponentBlock(block: Uint8Array, channel: number, out: DataView, offset: number, options: ComponentBlockOptions): void {
+    const { signed } = options;
+    const lowest = signed ? -127 : 0;
+    const highest = signed ? 127 : 255;
+
+    const values = new Array<number>(16);
+    let min = highest, max = lowest;
+    let innerMin = highest, innerMax = lowest;
+    for (let i = 0; i < 16; i++) {
+        const value = block[i * 4 + channel];
+        // Inverse of the signed decoder remap from [-1, 1] to [0, 255]
+        values[i] = signed ? Math.round(value * 254 / 255 - 127) : value;
+        min = Math.min(min, values[i]);
+        max = Math.max(max, values[i]);
+        // The 6-interpolant mode has exact extremes, so they don't need to be covered by the endpoints
+        if (values[i] !== lowest && values[i] !== highest) {
+            innerMin = Math.min(innerMin, values[i]);
+            innerMax = Math.max(innerMax, values[i]);
+        }
+    }
+    if (innerMin > innerMax) {
+        innerMin = innerMax = lowest;
+    }
+
+    const candidates: [number, number][] = [];
+    if (options.interpolants !== 6) {
+        candidates.push([max, min]);
+    }
+    if (options.interpolants === 6 || (options.interpolants === undefined && options.quality !== 'fast')) {
+        candidates.push([innerMin, innerMax]);
+    }
+
+    let best = { c0: 0, c1: 0, error: Infinity, indices: new Array<number>(16) };
+    const indices = new Array<number>(16);
+    const tryEndpoints = (c0: number, c1: number, eightMode: boolean): void => {
+        c0 = Math.min(highest, Math.max(lowest, c0));
+        c1 = Math.min(highest, Math.max(lowest, c1));
+        // Keep the endpoint order of the requested mode
+        if (eightMode ? c0 < c1 : c0 > c1) {
+            return;
+        }
+        const error = evaluateComponentEndpoints(values, c0, c1, signed, indices);
+        if (error < best.error) {
+            best = { c0, c1, error, indices: indices.slice() };
+        }
+    };
+
+    for (const [c0, c1] of candidates) {
+        const eightMode = c0 >= c1 && !(c0 === c1 && options.interpolants === 6);
+        tryEndpoints(c0, c1, eightMode);
+        if (options.quality === 'high') {
+            for (let d0 = -4; d0 <= 4; d0++) {
+                for (let d1 = -4; d1 <= 4; d1++) {
+                    tryEndpoints(c0 + d0, c1 + d1, eightMode);
+                }
+            }
+        }
+    }
+
+    let data = BigInt(best.c0 & 0xFF) | (BigInt(best.c1 & 0xFF) << 8n);
+    for (let i = 0; i < 16; i++) {
+        data |= BigInt(best.indices[i]) << BigInt(16 + i * 3);
+    }
+    out.setBigUint64(offset, data, true);
+}
+
+/**
+ * Encode the alpha channel of a 4x4 RGBA block as explicit 4-bit values (BC2)
+ */
+export function encodeExplicitAlphaBlock(block: Uint8Array, out: DataView, offset: number): void {
+    let low = 0;
+    let high = 0;
+    for (let i = 0; i < 16; i++) {
+        const alpha = Math.round(block[i * 4 + 3] * 15 / 255);
+        if (i < 8) {
+            low |= alpha << (i * 4);
+        } else {
+            high |= alpha << ((i - 8) * 4);
+        }
+    }
+
+    out.setUint32(offset, low >>> 0, true);
+    out.setUint32(offset + 4, high >>> 0, true);
+}
@@ -1,13 +1,26 @@
 /**
- * BCn (BC1-BC7) Texture Decoders
+ * BCn (BC1-BC7) Texture Decoders and Encoders
  * Source: https://github.com/Nominom/BCnEncoder.NET
  */
 
-export { decodeBC1 } from './bc1';
-export { decodeBC2 } from './bc2';
-export { decodeBC3 } from './bc3';
-export { decodeBC4 } from './bc4';
-export { decodeBC5 } from './bc5';
+export { decodeBC1, encodeBC1 } from './bc1';
+export { decodeBC2, encodeBC2 } from './bc2';
+export { decodeBC3, encodeBC3 } from './bc3';
+export { decodeBC4, encodeBC4 } from './bc4';
+export { decodeBC5, encodeBC5 } from './bc5';
+export { decodeBC6H, toneMapRgbFloat } from './bc6h';
 export { decodeBC7 } from './bc7';
+export { encodeBC7, type BC7EncoderOptions } from './bc7Encoder';
 
+export type {
+    BcEncoderQuality,
+    BcEncoderOptions,
+    BC1EncoderOptions,
+    BC4EncoderOptions,
+    BC5EncoderOptions,
+    ComponentChannel
+} from './encoderUtils';
+
+export { halfToFloat, reconstructNormalZ } from './utils';
+export { RgbaImage, type AlphaMode, type ChannelLayout, type ColorSpace } from '@bis-toolkit/utils';
 export type { ColorRgba32, ColorRgb24 } from './utils';
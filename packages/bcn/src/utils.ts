@@ -87,3 +87,56 @@ export function interpolateByteSeventh(e0: number, e1: number, step: number): nu
     if (step === 5) return ((2 * e0 + 5 * e1) / 7) | 0;
     return ((e0 + 6 * e1) / 7) | 0; // step === 6
 }
+
+// Convert IEEE 754 half-precision bits to a float
+export function halfToFloat(half: number): number {
+    const sign = (half & 0x8000) !== 0 ? -1 : 1;
+    const exponent = (half >> 10) & 0x1F;
+    const mantissa = half & 0x3FF;
+
+    if (exponent === 0) {
+        return sign * mantissa * Math.pow(2, -24);
+    }
+    if (exponent === 31) {
+        return mantissa === 0 ? sign * Infinity : NaN;
+    }
+    return sign * (1 + mantissa / 1024) * Math.pow(2, exponent - 15);
+}
+
+// Decode a signed (SNORM) BC4/BC5 component block, remapping [-1, 1] to [0, 255]
+export function decodeSignedComponentBlock(componentData: bigint): number[] {
+    const output = new Array<number>(16);
+
+    // -128 and -127 both represent -1.0
+    const c0 = Math.max(-127, Number(BigInt.asIntN(8, componentData & 0xFFn)));
+    const c1 = Math.max(-127, Number(BigInt.asIntN(8, (componentData >> 8n) & 0xFFn)));
+
+    const components = [c0, c1];
+    if (c0 > c1) {
+        for (let step = 1; step <= 6; step++) {
+            components.push(((7 - step) * c0 + step * c1) / 7);
+        }
+    } else {
+        for (let step = 1; step <= 4; step++) {
+            components.push(((5 - step) * c0 + step * c1) / 5);
+        }
+        components.push(-127, 127);
+    }
+
+    for (let i = 0; i < 16; i++) {
+        const index = Number((componentData >> BigInt(16 + i * 3)) & 0x7n);
+        output[i] = Math.round((components[index] / 127 + 1) * 127.5);
+    }
+
+    return output;
+}
+
+// Rebuild the Z (blue) channel of a two-channel normal map stored in R and G
+export function reconstructNormalZ(rgba: Uint8Array): void {
+    for (let i = 0; i < rgba.length; i += 4) {
+        const x = rgba[i] / 127.5 - 1;
+        const y = rgba[i + 1] / 127.5 - 1;
+        const z = Math.sqrt(Math.max(0, 1 - x * x - y * y));
+        rgba[i + 2] = Math.round((z + 1) * 127.5);
+    }
+}
@@ -14,7 +14,7 @@ export * as BCN from '@bis-toolkit/bcn';
 // Re-export PAA texture format
 export * as PAA from '@bis-toolkit/paa';
 
-// Re-export P3D model format (MLOD)
+// Re-export P3D model format (MLOD/ODOL)
 export * as P3D from '@bis-toolkit/p3d';
 
 // Re-export EDDS texture format
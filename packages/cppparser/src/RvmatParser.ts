@@ -6,6 +6,7 @@
 
 import { CfgArrayVariable, CfgBaseType, CfgClass, CfgDocument, CfgSimpleVariable, CfgType } from "./ast";
 import { Parser } from "./parser";
+import { RapReader } from "./rap";
 
 export interface RvmatStage {
     name: string;
@@ -41,11 +42,10 @@ export interface RvmatData {
 // eslint-disable-next-line @typescript-eslint/no-extraneous-class
 export class RvmatParser {
     /**
-     * Parse RVMAT file content
+     * Parse RVMAT file content, either source text or the raw bytes of a text or binarized (raP) file
      */
-    static parse(content: string, filename = '<rvmat>'): RvmatData {
-        const parser = new Parser(content, filename);
-        const document = parser.parse();
+    static parse(content: string | Uint8Array, filename = '<rvmat>'): RvmatData {
+        const document = this.parseDocument(content, filename);
         const data: RvmatData = { stages: [], texGens: new Map<number, TexGen>() };
 
         data.ambient = this.readNumberArray(this.findVariable(document, 'ambient'));
@@ -63,6 +63,16 @@ export class RvmatParser {
         return data;
     }
 
+    private static parseDocument(content: string | Uint8Array, filename: string): CfgDocument {
+        if (typeof content !== 'string') {
+            if (RapReader.isRap(content)) {
+                return new RapReader(content, filename).parse();
+            }
+            content = new TextDecoder('utf-8').decode(content);
+        }
+        return new Parser(content, filename).parse();
+    }
+
     private static findVariable(document: CfgDocument, name: string): CfgSimpleVariable | CfgArrayVariable | undefined {
         const target = name.toLowerCase();
         for (let i = document.statements.length - 1; i >= 0; i--) {
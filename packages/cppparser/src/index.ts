@@ -29,7 +29,9 @@ export {
 } from './lexer';
 
 export { Parser } from './parser';
+export { RapReader, RapWriter } from './rap';
 export { Preprocessor, type PreprocessorOptions } from './preprocessor';
+export { SqfEvaluator, type SqfValue } from './sqf';
 
 export {
   type CfgPatch,
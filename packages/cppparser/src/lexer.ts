@@ -17,7 +17,11 @@ export enum TokenKind {
     String,
     Punctuation,
     EOF,
-    Unknown
+    Unknown,
+    /** `__EVAL(...)`, the value holds the SQF expression between the parentheses */
+    Eval,
+    /** `__EXEC(...)`, the value holds the SQF statements between the parentheses */
+    Exec
 };
 
 export interface CfgToken {
@@ -38,6 +42,29 @@ export const isCfgPunctuation = (value: string): boolean => {
 };
 
 
+/**
+ * Index of the parenthesis closing the one at `open`, skipping over SQF strings; -1 when unbalanced
+ */
+const findClosingParenthesis = (input: string, open: number): number => {
+    let depth = 0;
+    for (let i = open; i < input.length; i++) {
+        const char = input[i];
+        if (char === '"' || char === '\'') {
+            // Doubled quotes inside the string end up as two adjacent strings, which skip the same
+            const end = input.indexOf(char, i + 1);
+            if (end === -1) {
+                return -1;
+            }
+            i = end;
+        } else if (char === '(') {
+            depth++;
+        } else if (char === ')' && --depth === 0) {
+            return i;
+        }
+    }
+    return -1;
+};
+
 const operators = Array.from(CfgOperators).sort((a, b) => b.length - a.length);
 
 export const lex = (input: string): CfgToken[] => {
@@ -114,6 +141,19 @@ export const lex = (input: string): CfgToken[] => {
                 i++;
             }
             const value = input.slice(start, i);
+            if (value === '__EVAL' || value === '__EXEC') {
+                let open = i;
+                while (open < input.length && /[ \t]/.test(input[open])) {
+                    open++;
+                }
+                const close = input[open] === '(' ? findClosingParenthesis(input, open) : -1;
+                if (close !== -1) {
+                    push(value === '__EVAL' ? TokenKind.Eval : TokenKind.Exec, input.slice(open + 1, close), start, close + 1, startLine, startColumn);
+                    updatePosition(input.slice(start, close + 1));
+                    i = close + 1;
+                    continue;
+                }
+            }
             const kind = isCfgKeyword(value) ? TokenKind.Keyword : TokenKind.Identifier;
             push(kind, value, start, i, startLine, startColumn);
             updatePosition(value);
@@ -182,7 +222,8 @@ export const lex = (input: string): CfgToken[] => {
                 }
                 i++;
             }
-            const value = input.slice(stringStart + 1, i);
+            // Doubled quotes stand for one quote character, as in the rapified form
+            const value = input.slice(stringStart + 1, i).replace(/""/g, '"');
             push(TokenKind.String, value, stringStart, i + 1, startLine, startColumn);
             updatePosition(input.slice(stringStart, i + 1));
             i++;
@@ -12,11 +12,14 @@ import {
     CfgPrototype,
     CfgDelete
 } from './ast';
+import { SqfEvaluator } from './sqf';
 
 export class Parser {
     private tokens: CfgToken[];
     private current = 0;
     private filename: string;
+    /** Shared by all __EVAL/__EXEC of the file so variables carry over */
+    private evaluator = new SqfEvaluator();
 
     constructor(input: string, filename?: string) {
         this.tokens = lex(input);
@@ -49,6 +52,31 @@ export class Parser {
         return this.current >= this.tokens.length;
     }
 
+    /**
+     * Run the SQF code of an __EVAL or __EXEC token, reporting errors at its location
+     */
+    private evaluate(token: CfgToken): CfgType | undefined {
+        try {
+            return this.evaluator.evaluate(token.value);
+        } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            throw new Error(`${this.filename}:${token.line}:${token.column}: ${token.kind === TokenKind.Eval ? '__EVAL' : '__EXEC'} failed: ${message}`);
+        }
+    }
+
+    /**
+     * `__EXEC(...)` statement, optionally followed by a semicolon
+     */
+    private parseExec(): void {
+        const token = this.consume(TokenKind.Exec);
+        if (token) {
+            this.evaluate(token);
+        }
+        if (this.peek()?.value === ';') {
+            this.advance();
+        }
+    }
+
     private parseType(): CfgType {
         const token = this.peek();
         if (!token) {throw new Error(`${this.filename}: Unexpected end of input`);}
@@ -65,6 +93,15 @@ export class Parser {
             throw new Error(`${this.filename}:${token.line}:${token.column}: Expected number after '${token.value}'`);
         }
 
+        if (token.kind === TokenKind.Eval) {
+            this.advance();
+            const value = this.evaluate(token);
+            if (value === undefined) {
+                throw new Error(`${this.filename}:${token.line}:${token.column}: __EVAL expression has no value`);
+            }
+            return value;
+        }
+
         if (token.kind === TokenKind.Number) {
             this.advance();
             return parseFloat(token.value);
@@ -193,6 +230,8 @@ export class Parser {
                 } else if (token.kind === TokenKind.Keyword && token.value === 'delete') {
                     const deleteStmt = this.parseDelete();
                     properties.set(deleteStmt.name, deleteStmt);
+                } else if (token.kind === TokenKind.Exec) {
+                    this.parseExec();
                 } else {
                     const prop = this.parseVariable();
                     properties.set(prop.name, prop);
@@ -283,6 +322,8 @@ export class Parser {
                 statements.push(this.parseDelete());
             } else if (token.kind === TokenKind.Keyword && token.value === 'enum') {
                 statements.push(this.parseEnum());
+            } else if (token.kind === TokenKind.Exec) {
+                this.parseExec();
             } else {
                 const token = this.peek();
                 if (token) {
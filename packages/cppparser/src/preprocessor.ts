@@ -1,7 +1,7 @@
 /**
- * Basic C-style preprocessor for CFG files
- * Handles #define, #ifdef, #ifndef, #else, #endif, #include
- * Complex macros currently not supported
+ * C-style preprocessor for CFG files
+ * Handles #define (object-like and function-like with # and ##), #undef, #if, #elif, #ifdef, #ifndef, #else, #endif, #include,
+ * line continuation and the QUOTE/__FILE__/__LINE__ built-ins
  */
 
 // Conditional imports for Node.js modules (browser compatibility)
@@ -30,15 +30,21 @@ export interface PreprocessorOptions {
 }
 
 export class Preprocessor {
-    private defines: Map<string, string>;
+    private defines: Map<string, Macro>;
     private conditionStack: boolean[];
+    /** Whether a branch of each open conditional group was already taken, parallel to conditionStack */
+    private branchTaken: boolean[];
     private skipLines: boolean;
     private processedFiles: Set<string>;
     private includePaths: string[];
 
     constructor(options: PreprocessorOptions = {}) {
-        this.defines = new Map(options.defines ?? []);
+        this.defines = new Map();
+        for (const [name, body] of options.defines ?? []) {
+            this.defines.set(name, { body });
+        }
         this.conditionStack = [];
+        this.branchTaken = [];
         this.skipLines = false;
         this.processedFiles = new Set();
         this.includePaths = options.includePaths ?? [];
@@ -51,9 +57,22 @@ export class Preprocessor {
         const input = readFileSync(filePath, 'utf8');
         const lines = input.split('\n');
         const output: string[] = [];
+        let inComment = false;
+
+        for (let index = 0; index < lines.length; index++) {
+            const lineNumber = index + 1;
+
+            // A backslash at the end of a line joins it with the next one
+            let rawLine = lines[index].trimEnd();
+            while (rawLine.endsWith('\\') && index + 1 < lines.length) {
+                rawLine = rawLine.slice(0, -1) + lines[++index].trimEnd();
+            }
+
+            // Comments are removed before directives and macros are looked at
+            const stripped = stripComments(rawLine, inComment);
+            inComment = stripped.inComment;
 
-        for (const rawLine of lines) {
-            const line = rawLine.trim();
+            const line = stripped.text.trim();
             if (line.startsWith('#')) {
                 const directive = this.parseDirective(line);
                 if (!directive) {
@@ -61,15 +80,10 @@ export class Preprocessor {
                     continue;
                 }
 
-                this.processDirective(directive, output, filePath);
+                this.processDirective(directive, output, filePath, lineNumber);
             } else {
                 if (!this.skipLines) {
-                    // Apply defines
-                    let processedLine = line;
-                    for (const [key, value] of this.defines) {
-                        processedLine = processedLine.replace(new RegExp(`\\b${key}\\b`, 'g'), value);
-                    }
-                    output.push(processedLine);
+                    output.push(this.expand(line, filePath, lineNumber, new Set()));
                 }
             }
         }
@@ -77,11 +91,11 @@ export class Preprocessor {
         return output.join('\n');
     }
 
-    private processDirective(directive: Directive, output: string[], currentFile: string): void {
+    private processDirective(directive: Directive, output: string[], currentFile: string, line: number): void {
         switch (directive.type) {
             case 'define':
                 if (!this.skipLines) {
-                    this.defines.set(directive.name!, directive.value ?? '');
+                    this.defines.set(directive.name!, { params: directive.params, body: directive.value ?? '' });
                 }
                 break;
             case 'undef':
@@ -90,24 +104,47 @@ export class Preprocessor {
                 }
                 break;
             case 'ifdef':
-                this.conditionStack.push(this.skipLines);
-                this.skipLines = this.skipLines || !this.defines.has(directive.name!);
+            case 'ifndef':
+            case 'if': {
+                const parentSkip = this.skipLines;
+                this.conditionStack.push(parentSkip);
+                // Conditions inside skipped groups are not evaluated
+                let taken = false;
+                if (!parentSkip) {
+                    taken = directive.type === 'if'
+                        ? this.evaluateCondition(directive.value ?? '', currentFile, line)
+                        : this.defines.has(directive.name!) === (directive.type === 'ifdef');
+                }
+                this.branchTaken.push(taken);
+                this.skipLines = parentSkip || !taken;
                 break;
+            }
 
-            case 'ifndef':
-                this.conditionStack.push(this.skipLines);
-                this.skipLines = this.skipLines || this.defines.has(directive.name!);
+            case 'elif':
+                if (this.conditionStack.length > 0) {
+                    const top = this.conditionStack.length - 1;
+                    if (this.conditionStack[top] || this.branchTaken[top]) {
+                        this.skipLines = true;
+                    } else {
+                        const taken = this.evaluateCondition(directive.value ?? '', currentFile, line);
+                        this.branchTaken[top] = taken;
+                        this.skipLines = !taken;
+                    }
+                }
                 break;
 
             case 'else':
                 if (this.conditionStack.length > 0) {
-                    this.skipLines = !this.skipLines;
+                    const top = this.conditionStack.length - 1;
+                    this.skipLines = this.conditionStack[top] || this.branchTaken[top];
+                    this.branchTaken[top] = true;
                 }
                 break;
 
             case 'endif':
                 if (this.conditionStack.length > 0) {
                     this.skipLines = this.conditionStack.pop()!;
+                    this.branchTaken.pop();
                 }
                 break;
 
@@ -146,13 +183,17 @@ export class Preprocessor {
         const type = parts[0].substring(1); // Remove #
 
         switch (type) {
-            case 'define':
-                if (parts.length >= 2) {
-                    const name = parts[1];
-                    const value = parts.slice(2).join(' ');
-                    return { type: 'define', name, value };
+            case 'define': {
+                // Function-like when the parameter list directly follows the name
+                const defineMatch = /^#define\s+([A-Za-z_]\w*)(\(([^)]*)\))?\s*(.*)$/.exec(line);
+                if (defineMatch) {
+                    const params = defineMatch[2] !== undefined
+                        ? defineMatch[3].split(',').map(param => param.trim()).filter(param => param !== '')
+                        : undefined;
+                    return { type: 'define', name: defineMatch[1], params, value: defineMatch[4] };
                 }
                 break;
+            }
             case 'undef':
                 if (parts.length >= 2) {
                     return { type: 'undef', name: parts[1] };
@@ -165,6 +206,12 @@ export class Preprocessor {
                 }
                 break;
 
+            case 'if':
+            case 'elif': {
+                const expression = line.substring(line.indexOf(type) + type.length).trim();
+                return expression !== '' ? { type, value: expression } : null;
+            }
+
             case 'else':
                 return { type: 'else' };
 
@@ -188,6 +235,94 @@ export class Preprocessor {
         return null;
     }
 
+    /**
+     * Expand macros in a line of text. Strings are left alone, and a macro is not expanded again inside its own expansion.
+     * As in the game's preprocessor, arguments are fully expanded before they are substituted, stringified or pasted.
+     */
+    private expand(text: string, file: string, line: number, disabled: ReadonlySet<string>): string {
+        let result = '';
+        let i = 0;
+        while (i < text.length) {
+            const c = text[i];
+            if (c === '"') {
+                const end = skipString(text, i);
+                result += text.slice(i, end);
+                i = end;
+                continue;
+            }
+            if (/\d/.test(c)) {
+                // Keep number suffixes and exponents such as 1e10 from being read as identifiers
+                const start = i;
+                while (i < text.length && /[\w.]/.test(text[i])) { i++; }
+                result += text.slice(start, i);
+                continue;
+            }
+            if (!/[A-Za-z_]/.test(c)) {
+                result += c;
+                i++;
+                continue;
+            }
+
+            const start = i;
+            while (i < text.length && /\w/.test(text[i])) { i++; }
+            const name = text.slice(start, i);
+            const macro = disabled.has(name) ? undefined : this.defines.get(name);
+
+            if (macro === undefined) {
+                if (name === '__LINE__') {
+                    result += String(line);
+                } else if (name === '__FILE__') {
+                    result += `"${file}"`;
+                } else if (name === 'QUOTE' && !this.defines.has(name)) {
+                    const call = readArguments(text, i, file, line);
+                    if (call?.args.length === 1) {
+                        result += `"${this.expand(call.args[0].trim(), file, line, disabled)}"`;
+                        i = call.end;
+                    } else {
+                        result += name;
+                    }
+                } else {
+                    result += name;
+                }
+                continue;
+            }
+
+            const nested = new Set(disabled).add(name);
+            if (macro.params === undefined) {
+                result += this.expand(substitute(macro.body, [], []), file, line, nested);
+                continue;
+            }
+
+            // A function-like macro name without arguments is left as is
+            const call = readArguments(text, i, file, line);
+            if (call === null) {
+                result += name;
+                continue;
+            }
+            const args = macro.params.length === 0 && call.args.length === 1 && call.args[0].trim() === '' ? [] : call.args;
+            if (args.length !== macro.params.length) {
+                throw new Error(`${file}:${line}: Macro ${name} expects ${macro.params.length} arguments, got ${args.length}`);
+            }
+            i = call.end;
+
+            const expandedArgs = args.map(arg => this.expand(arg.trim(), file, line, disabled));
+            result += this.expand(substitute(macro.body, macro.params, expandedArgs), file, line, nested);
+        }
+        return result;
+    }
+
+    /**
+     * Evaluate an #if/#elif condition: `defined` is resolved first, then macros are expanded
+     * and the remaining identifiers count as 0
+     */
+    private evaluateCondition(expression: string, file: string, line: number): boolean {
+        const resolved = expression.replace(
+            /\bdefined\s*(?:\(\s*([A-Za-z_]\w*)\s*\)|([A-Za-z_]\w*))/g,
+            (_, parenthesized: string | undefined, bare: string | undefined) => (this.defines.has(parenthesized ?? bare ?? '') ? '1' : '0')
+        );
+        return evaluateExpression(this.expand(resolved, file, line, new Set()), file, line) !== 0;
+    }
+
     private loadAndPreprocessFile(includePath: string, currentFile: string): string {
         if (!resolve || !readFileSync) {
             throw new Error('#include requires Node.js file system access');
@@ -217,8 +352,237 @@ export class Preprocessor {
 }
 
 interface Directive {
-    type: 'define' | 'undef' | 'ifdef' | 'ifndef' | 'else' | 'endif' | 'include';
+    type: 'define' | 'undef' | 'if' | 'elif' | 'ifdef' | 'ifndef' | 'else' | 'endif' | 'include';
     name?: string;
+    /** Parameters of a function-like macro */
+    params?: string[];
     value?: string;
     file?: string;
 }
+
+interface Macro {
+    /** Parameter names, undefined for object-like macros */
+    params?: string[];
+    body: string;
+}
+
+/**
+ * Index just past the string literal starting at `start`. Doubled quotes inside it end up as two adjacent strings.
+ */
+function skipString(text: string, start: number): number {
+    const end = text.indexOf('"', start + 1);
+    return end === -1 ? text.length : end + 1;
+}
+
+/**
+ * Replace line and block comments outside of strings with a space. `inComment` tells whether the line
+ * starts inside a block comment, and the returned one whether the next line does.
+ */
+function stripComments(text: string, inComment: boolean): { text: string; inComment: boolean } {
+    let out = '';
+    let i = 0;
+    while (i < text.length) {
+        if (inComment) {
+            const end = text.indexOf('*/', i);
+            if (end === -1) {
+                return { text: out, inComment: true };
+            }
+            out += ' ';
+            i = end + 2;
+            inComment = false;
+            continue;
+        }
+
+        const c = text[i];
+        if (c === '"') {
+            const end = skipString(text, i);
+            out += text.slice(i, end);
+            i = end;
+        } else if (c === '/' && text[i + 1] === '/') {
+            break;
+        } else if (c === '/' && text[i + 1] === '*') {
+            inComment = true;
+            i += 2;
+        } else {
+            out += c;
+            i++;
+        }
+    }
+    return { text: out, inComment };
+}
+
+/**
+ * Read a parenthesized, comma-separated argument list starting at `pos` (after optional whitespace).
+ * Returns null when no list follows.
+ */
+function readArguments(text: string, pos: number, file: string, line: number): { args: string[]; end: number } | null {
+    let i = pos;
+    while (i < text.length && /\s/.test(text[i])) { i++; }
+    if (text[i] !== '(') {
+        return null;
+    }
+
+    const args: string[] = [];
+    let depth = 0;
+    let argStart = i + 1;
+    for (; i < text.length; i++) {
+        const c = text[i];
+        if (c === '"') {
+            i = skipString(text, i) - 1;
+        } else if (c === '(') {
+            depth++;
+        } else if (c === ')') {
+            depth--;
+            if (depth === 0) {
+                args.push(text.slice(argStart, i));
+                return { args, end: i + 1 };
+            }
+        } else if (c === ',' && depth === 1) {
+            args.push(text.slice(argStart, i));
+            argStart = i + 1;
+        }
+    }
+    throw new Error(`${file}:${line}: Unterminated macro argument list`);
+}
+
+/**
+ * Replace parameters in a macro body, applying # (stringify) and ## (token pasting)
+ */
+function substitute(body: string, params: string[], args: string[]): string {
+    let out = '';
+    let i = 0;
+    while (i < body.length) {
+        const c = body[i];
+        if (c === '"') {
+            const end = skipString(body, i);
+            out += body.slice(i, end);
+            i = end;
+        } else if (c === '#' && body[i + 1] === '#') {
+            out = out.trimEnd();
+            i += 2;
+            while (i < body.length && /\s/.test(body[i])) { i++; }
+        } else if (c === '#') {
+            const match = /^#\s*([A-Za-z_]\w*)/.exec(body.slice(i));
+            const index = match ? params.indexOf(match[1]) : -1;
+            if (match && index !== -1) {
+                out += `"${args[index]}"`;
+                i += match[0].length;
+            } else {
+                out += c;
+                i++;
+            }
+        } else if (/[A-Za-z_]/.test(c)) {
+            const start = i;
+            while (i < body.length && /\w/.test(body[i])) { i++; }
+            const name = body.slice(start, i);
+            const index = params.indexOf(name);
+            out += index !== -1 ? args[index] : name;
+        } else {
+            out += c;
+            i++;
+        }
+    }
+    return out;
+}
+
+/**
+ * Evaluate an integer constant expression with C operators and precedence
+ */
+function evaluateExpression(expression: string, file: string, line: number): number {
+    const tokens = expression.match(/0x[0-9a-f]+u?l*|\d+u?l*|[A-Za-z_]\w*|<<|>>|<=|>=|==|!=|&&|\|\||\S/gi) ?? [];
+    let pos = 0;
+
+    const fail = (message: string): never => {
+        throw new Error(`${file}:${line}: ${message} in #if expression '${expression}'`);
+    };
+    const peek = (): string | undefined => tokens[pos];
+    const expect = (token: string): void => {
+        if (tokens[pos] !== token) {
+            fail(`Expected '${token}'`);
+        }
+        pos++;
+    };
+
+    const parsePrimary = (): number => {
+        const token = tokens[pos++] as string | undefined;
+        if (token === undefined) {
+            return fail('Unexpected end');
+        }
+        if (token === '(') {
+            const value = parseConditional();
+            expect(')');
+            return value;
+        }
+        if (/^\d/.test(token)) {
+            return token.toLowerCase().startsWith('0x') ? parseInt(token, 16) : parseInt(token, 10);
+        }
+        if (/^[A-Za-z_]/.test(token)) {
+            // Identifiers left after macro expansion
+            return token === 'true' ? 1 : 0;
+        }
+        switch (token) {
+            case '!': return parsePrimary() === 0 ? 1 : 0;
+            case '~': return ~parsePrimary();
+            case '-': return -parsePrimary();
+            case '+': return parsePrimary();
+        }
+        return fail(`Unexpected token '${token}'`);
+    };
+
+    // Binary operators from lowest to highest precedence
+    const levels: string[][] = [
+        ['||'], ['&&'], ['|'], ['^'], ['&'], ['==', '!='], ['<', '<=', '>', '>='], ['<<', '>>'], ['+', '-'], ['*', '/', '%']
+    ];
+    const apply = (op: string, a: number, b: number): number => {
+        switch (op) {
+            case '||': return a !== 0 || b !== 0 ? 1 : 0;
+            case '&&': return a !== 0 && b !== 0 ? 1 : 0;
+            case '|': return a | b;
+            case '^': return a ^ b;
+            case '&': return a & b;
+            case '==': return a === b ? 1 : 0;
+            case '!=': return a !== b ? 1 : 0;
+            case '<': return a < b ? 1 : 0;
+            case '<=': return a <= b ? 1 : 0;
+            case '>': return a > b ? 1 : 0;
+            case '>=': return a >= b ? 1 : 0;
+            case '<<': return a << b;
+            case '>>': return a >> b;
+            case '+': return a + b;
+            case '-': return a - b;
+            case '*': return a * b;
+        }
+        if (b === 0) {
+            return fail('Division by zero');
+        }
+        return op === '/' ? Math.trunc(a / b) : a % b;
+    };
+    const parseBinary = (level: number): number => {
+        if (level === levels.length) {
+            return parsePrimary();
+        }
+        let value = parseBinary(level + 1);
+        for (let op = peek(); op !== undefined && levels[level].includes(op); op = peek()) {
+            pos++;
+            value = apply(op, value, parseBinary(level + 1));
+        }
+        return value;
+    };
+    const parseConditional = (): number => {
+        const condition = parseBinary(0);
+        if (peek() !== '?') {
+            return condition;
+        }
+        pos++;
+        const whenTrue = parseConditional();
+        expect(':');
+        const whenFalse = parseConditional();
+        return condition !== 0 ? whenTrue : whenFalse;
+    };
+
+    const result = parseConditional();
+    if (pos < tokens.length) {
+        fail(`Unexpected token '${tokens[pos]}'`);
+    }
+    return result;
+}
@@ -0,0 +1,430 @@
+import { BinaryReader, BinaryWriter } from '@bis-toolkit/utils';
+import {
+    CfgType,
+    CfgBaseType,
+    CfgDocument,
+    CfgSimpleVariable,
+    CfgArrayVariable,
+    CfgArrayExtend,
+    CfgArrayShrink,
+    CfgEnum,
+    CfgNamedType,
+    CfgClass,
+    CfgPrototype,
+    CfgDelete
+} from './ast';
+
+/** "\0raP" */
+export const RAP_MAGIC = 'raP';
+/** Size of the file header, the root class body follows it */
+export const RAP_HEADER_SIZE = 16;
+
+// Entry types of a class body
+export const RAP_ENTRY_CLASS = 0;
+export const RAP_ENTRY_VALUE = 1;
+export const RAP_ENTRY_ARRAY = 2;
+export const RAP_ENTRY_EXTERNAL_CLASS = 3;
+export const RAP_ENTRY_DELETE_CLASS = 4;
+/** Array entry with a flag: += or -= */
+export const RAP_ENTRY_ARRAY_MODIFY = 5;
+
+// Types of simple values and array elements
+export const RAP_VALUE_STRING = 0;
+export const RAP_VALUE_FLOAT = 1;
+export const RAP_VALUE_INT = 2;
+export const RAP_VALUE_ARRAY = 3;
+export const RAP_VALUE_EXPRESSION = 4;
+export const RAP_VALUE_INT64 = 6;
+
+export const RAP_ARRAY_EXTEND = 1;
+export const RAP_ARRAY_SHRINK = 2;
+
+/**
+ * Shortest decimal that maps back to the same 32-bit float, so 0.1 reads as 0.1 instead of 0.10000000149011612
+ */
+export function shortestFloat32(value: number): number {
+    if (!Number.isFinite(value)) {
+        return value;
+    }
+    for (let precision = 1; precision < 9; precision++) {
+        const candidate = parseFloat(value.toPrecision(precision));
+        if (Math.fround(candidate) === value) {
+            return candidate;
+        }
+    }
+    return parseFloat(value.toPrecision(9));
+}
+
+/**
+ * Reader for rapified (binarized) configs: config.bin, binarized RVMATs and mission.sqm.
+ * Produces the same AST as `Parser` does for the source text.
+ */
+export class RapReader {
+    private reader: BinaryReader;
+    private filename: string;
+
+    constructor(buffer: Uint8Array, filename?: string) {
+        this.reader = new BinaryReader(buffer);
+        this.filename = filename ?? '<unknown>';
+    }
+
+    /**
+     * Check for the raP signature
+     */
+    static isRap(buffer: Uint8Array): boolean {
+        return buffer.length >= RAP_HEADER_SIZE && buffer[0] === 0 &&
+            String.fromCharCode(buffer[1], buffer[2], buffer[3]) === RAP_MAGIC;
+    }
+
+    public parse(): CfgDocument {
+        const buffer = this.reader;
+        if (buffer.length < RAP_HEADER_SIZE || buffer.readByte() !== 0 || buffer.readRawString(3) !== RAP_MAGIC) {
+            throw new Error(`${this.filename}: Not a rapified config (missing raP signature)`);
+        }
+        buffer.readUInt32(); // always 0
+        buffer.readUInt32(); // always 8
+        const enumOffset = buffer.readUInt32();
+
+        const statements: CfgBaseType[] = [];
+        try {
+            const entries: CfgNamedType[] = [];
+            this.readClassBody(RAP_HEADER_SIZE, entries);
+            statements.push(...entries);
+
+            if (enumOffset !== 0 && enumOffset < buffer.length) {
+                const cfgEnum = this.readEnum(enumOffset);
+                if (cfgEnum.members.length > 0) {
+                    statements.push(cfgEnum);
+                }
+            }
+        } catch (error) {
+            if (error instanceof RangeError) {
+                throw new Error(`${this.filename}: Unexpected end of rapified data`);
+            }
+            throw error;
+        }
+
+        return {
+            kind: 'document',
+            statements
+        };
+    }
+
+    /**
+     * Read a class body at the given offset into the list of entries, returning the inherited class name
+     */
+    private readClassBody(offset: number, entries: CfgNamedType[]): string | undefined {
+        this.checkOffset(offset);
+        const reader = this.reader;
+        reader.seek(offset);
+        const baseClassName = reader.readCString();
+        const entryCount = this.readCompressedInt();
+        for (let i = 0; i < entryCount; i++) {
+            entries.push(this.readEntry());
+        }
+        return baseClassName !== '' ? baseClassName : undefined;
+    }
+
+    private readEntry(): CfgNamedType {
+        const reader = this.reader;
+        const entryOffset = reader.pos;
+        const type = reader.readByte();
+        switch (type) {
+            case RAP_ENTRY_CLASS: {
+                const name = reader.readCString();
+                const bodyOffset = reader.readUInt32();
+                const next = reader.pos;
+
+                const entries: CfgNamedType[] = [];
+                const baseClassName = this.readClassBody(bodyOffset, entries);
+                reader.seek(next);
+
+                const properties = new Map<string, CfgBaseType>();
+                for (const entry of entries) {
+                    properties.set(entry.name, entry);
+                }
+                const cfgClass: CfgClass = { kind: 'class', name, baseClassName, properties };
+                return cfgClass;
+            }
+            case RAP_ENTRY_VALUE: {
+                const valueType = reader.readByte();
+                const name = reader.readCString();
+                const variable: CfgSimpleVariable = { kind: 'variable', name, value: this.readValue(valueType) };
+                return variable;
+            }
+            case RAP_ENTRY_ARRAY: {
+                const name = reader.readCString();
+                const array: CfgArrayVariable = { kind: 'array', name, values: this.readArray() };
+                return array;
+            }
+            case RAP_ENTRY_EXTERNAL_CLASS: {
+                const prototype: CfgPrototype = { kind: 'prototype', name: reader.readCString() };
+                return prototype;
+            }
+            case RAP_ENTRY_DELETE_CLASS: {
+                const deleteStmt: CfgDelete = { kind: 'delete', name: reader.readCString() };
+                return deleteStmt;
+            }
+            case RAP_ENTRY_ARRAY_MODIFY: {
+                const flag = reader.readUInt32();
+                const name = reader.readCString();
+                const values = this.readArray();
+                if (flag === RAP_ARRAY_EXTEND) {
+                    const extend: CfgArrayExtend = { kind: 'array-extend', name, values };
+                    return extend;
+                } else if (flag === RAP_ARRAY_SHRINK) {
+                    const shrink: CfgArrayShrink = { kind: 'array-shrink', name, values };
+                    return shrink;
+                }
+                throw new Error(`${this.filename}: Unknown array modifier ${flag} for '${name}' at offset ${entryOffset}`);
+            }
+            default:
+                throw new Error(`${this.filename}: Unknown entry type ${type} at offset ${entryOffset}`);
+        }
+    }
+
+    private readValue(valueType: number): CfgType {
+        const reader = this.reader;
+        switch (valueType) {
+            case RAP_VALUE_STRING:
+            case RAP_VALUE_EXPRESSION:
+                return reader.readCString();
+            case RAP_VALUE_FLOAT:
+                return shortestFloat32(reader.readFloat());
+            case RAP_VALUE_INT:
+                return reader.readInt32();
+            case RAP_VALUE_INT64: {
+                const low = reader.readUInt32();
+                const high = reader.readInt32();
+                return high * 0x100000000 + low;
+            }
+            case RAP_VALUE_ARRAY:
+                return this.readArray();
+            default:
+                throw new Error(`${this.filename}: Unknown value type ${valueType} at offset ${reader.pos - 1}`);
+        }
+    }
+
+    private readArray(): CfgType[] {
+        const count = this.readCompressedInt();
+        const values: CfgType[] = [];
+        for (let i = 0; i < count; i++) {
+            values.push(this.readValue(this.reader.readByte()));
+        }
+        return values;
+    }
+
+    private readEnum(offset: number): CfgEnum {
+        const reader = this.reader;
+        reader.seek(offset);
+        const count = reader.readUInt32();
+        const members: { name: string; value?: number }[] = [];
+        for (let i = 0; i < count; i++) {
+            const name = reader.readCString();
+            members.push({ name, value: reader.readInt32() });
+        }
+        return {
+            kind: 'enum',
+            members
+        };
+    }
+
+    /**
+     * Variable-length integer: 7 bits per byte, least significant first, high bit set on all but the last byte
+     */
+    private readCompressedInt(): number {
+        let value = 0;
+        let shift = 0;
+        for (;;) {
+            const byte = this.reader.readByte();
+            value += (byte & 0x7f) * 2 ** shift;
+            if ((byte & 0x80) === 0) {
+                return value;
+            }
+            shift += 7;
+            if (shift > 28) {
+                throw new Error(`${this.filename}: Invalid compressed integer at offset ${this.reader.pos}`);
+            }
+        }
+    }
+
+    private checkOffset(offset: number): void {
+        if (offset < RAP_HEADER_SIZE || offset >= this.reader.length) {
+            throw new Error(`${this.filename}: Class body offset ${offset} is out of range`);
+        }
+    }
+}
+
+const INT32_MIN = -0x80000000;
+const INT32_MAX = 0x7fffffff;
+
+/**
+ * Writer for rapified configs, the inverse of `RapReader`. Produces the layout of the BI binarizer:
+ * each class body is followed by the bodies of its nested classes, depth first, and the enum table ends the file.
+ *
+ * Integral numbers are stored as int (int64 outside the 32-bit range), all others as float.
+ * `true`, `false` and `null` have no binary form and are stored as strings, like unquoted words.
+ */
+export class RapWriter {
+    private writer = new BinaryWriter();
+
+    public write(document: CfgDocument): Uint8Array {
+        const writer = this.writer = new BinaryWriter();
+        writer.writeByte(0);
+        writer.writeRawString(RAP_MAGIC);
+        writer.writeUInt32(0);
+        writer.writeUInt32(8);
+        const enumOffsetPos = writer.pos;
+        writer.writeUInt32(0);
+
+        const entries: CfgNamedType[] = [];
+        const members: { name: string; value?: number }[] = [];
+        for (const statement of document.statements) {
+            if (statement.kind === 'enum') {
+                members.push(...(statement as CfgEnum).members);
+            } else {
+                entries.push(statement as CfgNamedType);
+            }
+        }
+
+        this.writeClassBody(undefined, entries);
+
+        writer.writeUInt32At(enumOffsetPos, writer.pos);
+        writer.writeUInt32(members.length);
+        let nextValue = 0;
+        for (const member of members) {
+            const value = member.value ?? nextValue;
+            writer.writeCString(member.name);
+            writer.writeInt32(value);
+            nextValue = value + 1;
+        }
+
+        return writer.getBuffer();
+    }
+
+    private writeClassBody(baseClassName: string | undefined, entries: CfgNamedType[]): void {
+        const writer = this.writer;
+        writer.writeCString(baseClassName ?? '');
+        this.writeCompressedInt(entries.length);
+
+        // Class entries hold the offset of their body, which is only known once the preceding bodies are written
+        const classes: { offsetPos: number; baseClassName?: string; entries: CfgNamedType[] }[] = [];
+        for (const entry of entries) {
+            switch (entry.kind) {
+                case 'class': {
+                    const cfgClass = entry as CfgClass;
+                    writer.writeByte(RAP_ENTRY_CLASS);
+                    writer.writeCString(cfgClass.name);
+                    classes.push({
+                        offsetPos: writer.pos,
+                        baseClassName: cfgClass.baseClassName,
+                        entries: [...cfgClass.properties.values()] as CfgNamedType[]
+                    });
+                    writer.writeUInt32(0);
+                    break;
+                }
+                case 'prototype': {
+                    const prototype = entry as CfgPrototype;
+                    if (prototype.baseClassName !== undefined) {
+                        // External classes cannot name a base, store an empty class instead
+                        writer.writeByte(RAP_ENTRY_CLASS);
+                        writer.writeCString(prototype.name);
+                        classes.push({ offsetPos: writer.pos, baseClassName: prototype.baseClassName, entries: [] });
+                        writer.writeUInt32(0);
+                    } else {
+                        writer.writeByte(RAP_ENTRY_EXTERNAL_CLASS);
+                        writer.writeCString(prototype.name);
+                    }
+                    break;
+                }
+                case 'delete':
+                    writer.writeByte(RAP_ENTRY_DELETE_CLASS);
+                    writer.writeCString(entry.name);
+                    break;
+                case 'variable': {
+                    const value = (entry as CfgSimpleVariable).value;
+                    if (Array.isArray(value)) {
+                        writer.writeByte(RAP_ENTRY_ARRAY);
+                        writer.writeCString(entry.name);
+                        this.writeArray(value);
+                    } else {
+                        writer.writeByte(RAP_ENTRY_VALUE);
+                        this.writeValue(value, entry.name);
+                    }
+                    break;
+                }
+                case 'array':
+                    writer.writeByte(RAP_ENTRY_ARRAY);
+                    writer.writeCString(entry.name);
+                    this.writeArray((entry as CfgArrayVariable).values);
+                    break;
+                case 'array-extend':
+                case 'array-shrink':
+                    writer.writeByte(RAP_ENTRY_ARRAY_MODIFY);
+                    writer.writeUInt32(entry.kind === 'array-extend' ? RAP_ARRAY_EXTEND : RAP_ARRAY_SHRINK);
+                    writer.writeCString(entry.name);
+                    this.writeArray((entry as CfgArrayExtend | CfgArrayShrink).values);
+                    break;
+                default:
+                    throw new Error(`Cannot rapify '${entry.kind}' entry '${entry.name}'`);
+            }
+        }
+
+        for (const cfgClass of classes) {
+            writer.writeUInt32At(cfgClass.offsetPos, writer.pos);
+            this.writeClassBody(cfgClass.baseClassName, cfgClass.entries);
+        }
+    }
+
+    /**
+     * Write the value type, then the name when given (simple variables), then the value
+     */
+    private writeValue(value: CfgType, name?: string): void {
+        const writer = this.writer;
+        const writeName = (): void => {
+            if (name !== undefined) {
+                writer.writeCString(name);
+            }
+        };
+
+        if (Array.isArray(value)) {
+            writer.writeByte(RAP_VALUE_ARRAY);
+            writeName();
+            this.writeArray(value);
+        } else if (typeof value === 'number') {
+            if (Number.isInteger(value) && value >= INT32_MIN && value <= INT32_MAX) {
+                writer.writeByte(RAP_VALUE_INT);
+                writeName();
+                writer.writeInt32(value);
+            } else if (Number.isSafeInteger(value)) {
+                writer.writeByte(RAP_VALUE_INT64);
+                writeName();
+                writer.writeUInt32(value >>> 0);
+                writer.writeInt32(Math.floor(value / 0x100000000));
+            } else {
+                writer.writeByte(RAP_VALUE_FLOAT);
+                writeName();
+                writer.writeFloat(value);
+            }
+        } else {
+            writer.writeByte(RAP_VALUE_STRING);
+            writeName();
+            writer.writeCString(value === null ? 'null' : String(value));
+        }
+    }
+
+    private writeArray(values: CfgType[]): void {
+        this.writeCompressedInt(values.length);
+        for (const value of values) {
+            this.writeValue(value);
+        }
+    }
+
+    private writeCompressedInt(value: number): void {
+        do {
+            const byte = value & 0x7f;
+            value = Math.floor(value / 0x80);
+            this.writer.writeByte(value > 0 ? byte | 0x80 : byte);
+        } while (value > 0);
+    }
+}
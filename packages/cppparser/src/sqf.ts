@@ -0,0 +1,383 @@
+/**
+ * Evaluator for the SQF subset used by __EVAL and __EXEC in configs
+ */
+
+export type SqfValue = number | string | boolean | SqfValue[];
+
+interface SqfToken {
+    kind: 'number' | 'string' | 'word' | 'operator';
+    value: string;
+    /** Numeric value of number tokens */
+    number?: number;
+}
+
+type UnaryCommand = (value: SqfValue) => SqfValue;
+type BinaryCommand = (left: SqfValue, right: SqfValue) => SqfValue;
+
+const DEG_TO_RAD = Math.PI / 180;
+
+function toNumber(value: SqfValue, command: string): number {
+    if (typeof value !== 'number') {
+        throw new Error(`Type mismatch in '${command}': expected number, got ${typeName(value)}`);
+    }
+    return value;
+}
+
+function toBoolean(value: SqfValue, command: string): boolean {
+    if (typeof value !== 'boolean') {
+        throw new Error(`Type mismatch in '${command}': expected bool, got ${typeName(value)}`);
+    }
+    return value;
+}
+
+function typeName(value: SqfValue): string {
+    if (Array.isArray(value)) {
+        return 'array';
+    }
+    return typeof value === 'boolean' ? 'bool' : typeof value;
+}
+
+/**
+ * Format a value like the `str` command: numbers with up to 6 significant digits, strings quoted
+ */
+function formatValue(value: SqfValue): string {
+    if (typeof value === 'number') {
+        return Number.isInteger(value) ? String(value) : String(parseFloat(value.toPrecision(6)));
+    }
+    if (typeof value === 'string') {
+        return `"${value.replace(/"/g, '""')}"`;
+    }
+    if (Array.isArray(value)) {
+        return `[${value.map(formatValue).join(',')}]`;
+    }
+    return String(value);
+}
+
+/**
+ * Text of a value for string commands: strings as is, everything else as `str` formats it
+ */
+function formatText(value: SqfValue): string {
+    return typeof value === 'string' ? value : formatValue(value);
+}
+
+function isEqual(left: SqfValue, right: SqfValue, command: string): boolean {
+    if (typeof left === 'string' && typeof right === 'string') {
+        return left.toLowerCase() === right.toLowerCase();
+    }
+    if (typeof left !== typeof right || Array.isArray(left) || Array.isArray(right)) {
+        throw new Error(`Type mismatch in '${command}': cannot compare ${typeName(left)} and ${typeName(right)}`);
+    }
+    return left === right;
+}
+
+function compare(command: string, test: (a: number, b: number) => boolean): BinaryCommand {
+    return (left, right) => test(toNumber(left, command), toNumber(right, command));
+}
+
+function math(command: string, fn: (value: number) => number): UnaryCommand {
+    return value => fn(toNumber(value, command));
+}
+
+const UNARY_COMMANDS = new Map(Object.entries<UnaryCommand>({
+    '-': math('-', value => -value),
+    '+': value => (Array.isArray(value) ? [...value] : toNumber(value, '+')),
+    '!': value => !toBoolean(value, '!'),
+    'not': value => !toBoolean(value, 'not'),
+    'str': value => formatValue(value),
+    'floor': math('floor', Math.floor),
+    'ceil': math('ceil', Math.ceil),
+    'round': math('round', Math.round),
+    'sqrt': math('sqrt', Math.sqrt),
+    'abs': math('abs', Math.abs),
+    'exp': math('exp', Math.exp),
+    'ln': math('ln', Math.log),
+    'log': math('log', Math.log10),
+    'sin': math('sin', value => Math.sin(value * DEG_TO_RAD)),
+    'cos': math('cos', value => Math.cos(value * DEG_TO_RAD)),
+    'tan': math('tan', value => Math.tan(value * DEG_TO_RAD)),
+    'asin': math('asin', value => Math.asin(value) / DEG_TO_RAD),
+    'acos': math('acos', value => Math.acos(value) / DEG_TO_RAD),
+    'atan': math('atan', value => Math.atan(value) / DEG_TO_RAD),
+    'rad': math('rad', value => value * DEG_TO_RAD),
+    'deg': math('deg', value => value / DEG_TO_RAD),
+    'count': (value) => {
+        if (typeof value !== 'string' && !Array.isArray(value)) {
+            throw new Error(`Type mismatch in 'count': expected array or string, got ${typeName(value)}`);
+        }
+        return value.length;
+    },
+    'toupper': value => formatText(value).toUpperCase(),
+    'tolower': value => formatText(value).toLowerCase(),
+    'parsenumber': (value) => {
+        const parsed = parseFloat(formatText(value));
+        return Number.isFinite(parsed) ? parsed : 0;
+    },
+}));
+
+const NULAR_COMMANDS = new Map(Object.entries<SqfValue>({
+    'true': true,
+    'false': false,
+    'pi': Math.PI,
+}));
+
+/** Binary operators and commands by precedence, lowest first */
+const BINARY_LEVELS: Map<string, BinaryCommand>[] = [
+    new Map(Object.entries<BinaryCommand>({
+        '||': (left, right) => toBoolean(left, '||') || toBoolean(right, '||'),
+        'or': (left, right) => toBoolean(left, 'or') || toBoolean(right, 'or'),
+    })),
+    new Map(Object.entries<BinaryCommand>({
+        '&&': (left, right) => toBoolean(left, '&&') && toBoolean(right, '&&'),
+        'and': (left, right) => toBoolean(left, 'and') && toBoolean(right, 'and'),
+    })),
+    new Map(Object.entries<BinaryCommand>({
+        '==': (left, right) => isEqual(left, right, '=='),
+        '!=': (left, right) => !isEqual(left, right, '!='),
+        '<': compare('<', (a, b) => a < b),
+        '<=': compare('<=', (a, b) => a <= b),
+        '>': compare('>', (a, b) => a > b),
+        '>=': compare('>=', (a, b) => a >= b),
+    })),
+    new Map(Object.entries<BinaryCommand>({
+        'select': (left, right) => {
+            if (!Array.isArray(left)) {
+                throw new Error(`Type mismatch in 'select': expected array, got ${typeName(left)}`);
+            }
+            const index = typeof right === 'boolean' ? Number(right) : Math.round(toNumber(right, 'select'));
+            if (index < 0 || index >= left.length) {
+                throw new Error(`'select' index ${index} is out of range`);
+            }
+            return left[index];
+        },
+        'in': (left, right) => {
+            if (!Array.isArray(right)) {
+                throw new Error(`Type mismatch in 'in': expected array, got ${typeName(right)}`);
+            }
+            return right.some(item => !Array.isArray(item) && item === left);
+        },
+        'find': (left, right) => {
+            if (typeof left === 'string') {
+                return left.indexOf(formatText(right));
+            }
+            if (!Array.isArray(left)) {
+                throw new Error(`Type mismatch in 'find': expected array or string, got ${typeName(left)}`);
+            }
+            return left.findIndex(item => !Array.isArray(item) && item === right);
+        },
+    })),
+    new Map(Object.entries<BinaryCommand>({
+        '+': (left, right) => {
+            if (typeof left === 'string' && typeof right === 'string') {
+                return left + right;
+            }
+            if (Array.isArray(left) && Array.isArray(right)) {
+                return [...left, ...right];
+            }
+            return toNumber(left, '+') + toNumber(right, '+');
+        },
+        '-': (left, right) => toNumber(left, '-') - toNumber(right, '-'),
+        'max': (left, right) => Math.max(toNumber(left, 'max'), toNumber(right, 'max')),
+        'min': (left, right) => Math.min(toNumber(left, 'min'), toNumber(right, 'min')),
+    })),
+    new Map(Object.entries<BinaryCommand>({
+        '*': (left, right) => toNumber(left, '*') * toNumber(right, '*'),
+        '/': (left, right) => toNumber(left, '/') / toNumber(right, '/'),
+        '%': (left, right) => toNumber(left, '%') % toNumber(right, '%'),
+        'mod': (left, right) => toNumber(left, 'mod') % toNumber(right, 'mod'),
+        'atan2': (left, right) => Math.atan2(toNumber(left, 'atan2'), toNumber(right, 'atan2')) / DEG_TO_RAD,
+    })),
+    new Map(Object.entries<BinaryCommand>({
+        '^': (left, right) => Math.pow(toNumber(left, '^'), toNumber(right, '^')),
+    })),
+];
+
+function tokenize(code: string): SqfToken[] {
+    const tokens: SqfToken[] = [];
+    let i = 0;
+    while (i < code.length) {
+        const c = code[i];
+        if (/\s/.test(c)) {
+            i++;
+            continue;
+        }
+
+        const number = /^(?:0x[0-9a-f]+|\$[0-9a-f]+|(?:\d+\.?\d*|\.\d+)(?:e[+-]?\d+)?)/i.exec(code.slice(i));
+        if (number) {
+            const text = number[0];
+            const value = text.startsWith('$') ? parseInt(text.slice(1), 16) : /^0x/i.test(text) ? parseInt(text, 16) : parseFloat(text);
+            tokens.push({ kind: 'number', value: text, number: value });
+            i += text.length;
+            continue;
+        }
+
+        if (c === '"' || c === '\'') {
+            // Quotes are escaped by doubling them
+            let value = '';
+            i++;
+            for (;;) {
+                if (i >= code.length) {
+                    throw new Error('Unterminated string');
+                }
+                if (code[i] === c) {
+                    if (code[i + 1] !== c) {
+                        break;
+                    }
+                    i++;
+                }
+                value += code[i++];
+            }
+            i++;
+            tokens.push({ kind: 'string', value });
+            continue;
+        }
+
+        const word = /^[A-Za-z_]\w*/.exec(code.slice(i));
+        if (word) {
+            tokens.push({ kind: 'word', value: word[0].toLowerCase() });
+            i += word[0].length;
+            continue;
+        }
+
+        const operator = /^(?:==|!=|<=|>=|&&|\|\||[-+*/%^<>!=()[\],;])/.exec(code.slice(i));
+        if (!operator) {
+            throw new Error(`Unexpected character '${c}'`);
+        }
+        tokens.push({ kind: 'operator', value: operator[0] });
+        i += operator[0].length;
+    }
+    return tokens;
+}
+
+/**
+ * Evaluates SQF expressions at config parse time. Variables persist between calls,
+ * so values assigned in __EXEC are visible to later __EVAL expressions.
+ */
+export class SqfEvaluator {
+    /** Variables by lowercase name, SQF identifiers are case-insensitive */
+    public variables = new Map<string, SqfValue>();
+
+    private tokens: SqfToken[] = [];
+    private pos = 0;
+
+    /**
+     * Run statements separated by `;` and return the value of the last one, if it has any
+     */
+    public evaluate(code: string): SqfValue | undefined {
+        this.tokens = tokenize(code);
+        this.pos = 0;
+
+        let result: SqfValue | undefined;
+        while (this.pos < this.tokens.length) {
+            if (this.match(';')) {
+                continue;
+            }
+            result = this.parseStatement();
+            if (this.pos < this.tokens.length && !this.match(';')) {
+                throw new Error(`Unexpected '${this.tokens[this.pos].value}'`);
+            }
+        }
+        return result;
+    }
+
+    private parseStatement(): SqfValue | undefined {
+        if (this.peek()?.value === 'private') {
+            this.pos++;
+        }
+        const name = this.peek();
+        const next = this.tokens[this.pos + 1] as SqfToken | undefined;
+        if (name?.kind === 'word' && next?.kind === 'operator' && next.value === '=') {
+            this.pos += 2;
+            this.variables.set(name.value, this.parseBinary(0));
+            return undefined;
+        }
+        return this.parseBinary(0);
+    }
+
+    private parseBinary(level: number): SqfValue {
+        if (level === BINARY_LEVELS.length) {
+            return this.parseUnary();
+        }
+        let value = this.parseBinary(level + 1);
+        for (let command = this.peekCommand(BINARY_LEVELS[level]); command; command = this.peekCommand(BINARY_LEVELS[level])) {
+            this.pos++;
+            value = command(value, this.parseBinary(level + 1));
+        }
+        return value;
+    }
+
+    private parseUnary(): SqfValue {
+        const command = this.peekCommand(UNARY_COMMANDS);
+        if (command) {
+            this.pos++;
+            return command(this.parseUnary());
+        }
+        return this.parsePrimary();
+    }
+
+    private parsePrimary(): SqfValue {
+        const token = this.tokens[this.pos++] as SqfToken | undefined;
+        if (!token) {
+            throw new Error('Unexpected end of expression');
+        }
+
+        switch (token.kind) {
+            case 'number':
+                return token.number ?? 0;
+            case 'string':
+                return token.value;
+            case 'word': {
+                const value = NULAR_COMMANDS.get(token.value) ?? this.variables.get(token.value);
+                if (value === undefined) {
+                    throw new Error(`Undefined variable '${token.value}'`);
+                }
+                return value;
+            }
+            case 'operator':
+                if (token.value === '(') {
+                    const value = this.parseBinary(0);
+                    this.expect(')');
+                    return value;
+                }
+                if (token.value === '[') {
+                    const elements: SqfValue[] = [];
+                    if (!this.match(']')) {
+                        do {
+                            elements.push(this.parseBinary(0));
+                        } while (this.match(','));
+                        this.expect(']');
+                    }
+                    return elements;
+                }
+                break;
+        }
+        throw new Error(`Unexpected '${token.value}'`);
+    }
+
+    /**
+     * Command or operator of the given set at the current position
+     */
+    private peekCommand<T>(commands: Map<string, T>): T | undefined {
+        const token = this.peek();
+        return token?.kind === 'word' || token?.kind === 'operator' ? commands.get(token.value) : undefined;
+    }
+
+    private peek(): SqfToken | undefined {
+        return this.tokens[this.pos] as SqfToken | undefined;
+    }
+
+    private match(value: string): boolean {
+        const token = this.peek();
+        if (token?.kind === 'operator' && token.value === value) {
+            this.pos++;
+            return true;
+        }
+        return false;
+    }
+
+    private expect(value: string): void {
+        if (!this.match(value)) {
+            const token = this.peek();
+            throw new Error(`Expected '${value}', got ${token ? `'${token.value}'` : 'end of expression'}`);
+        }
+    }
+}
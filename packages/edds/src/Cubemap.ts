@@ -0,0 +1,107 @@
+/**
+ * Cubemap unwrap helpers. Faces are RGBA buffers in Direct3D order: +X, -X, +Y, -Y, +Z, -Z.
+ */
+
+import { RgbaImage } from '@bis-toolkit/utils';
+
+// Face positions (column, row) in the horizontal cross layout:
+//        +Y
+//    -X  +Z  +X  -Z
+//        -Y
+const CROSS_POSITIONS: [number, number][] = [
+    [2, 1], // +X
+    [0, 1], // -X
+    [1, 0], // +Y
+    [1, 2], // -Y
+    [1, 1], // +Z
+    [3, 1], // -Z
+];
+
+function checkFaces(faces: Uint8Array[], size: number): void {
+    if (faces.length !== 6) {
+        throw new Error(`A cubemap needs 6 faces, got ${faces.length}`);
+    }
+    for (const face of faces) {
+        if (face.length !== size * size * 4) {
+            throw new Error(`Cubemap face has ${face.length} bytes (expected ${size * size * 4})`);
+        }
+    }
+}
+
+/**
+ * Unwrap a cubemap into a 4x3 horizontal cross; unused cells are transparent black
+ */
+export function unwrapCubemapCross(faces: Uint8Array[], size: number): RgbaImage {
+    checkFaces(faces, size);
+
+    const width = size * 4;
+    const height = size * 3;
+    const data = new Uint8Array(width * height * 4);
+
+    for (let face = 0; face < 6; face++) {
+        const [col, row] = CROSS_POSITIONS[face];
+        for (let y = 0; y < size; y++) {
+            const src = faces[face].subarray(y * size * 4, (y + 1) * size * 4);
+            data.set(src, ((row * size + y) * width + col * size) * 4);
+        }
+    }
+
+    return new RgbaImage(width, height, data);
+}
+
+/**
+ * Unwrap a cubemap into an equirectangular (latitude/longitude) panorama using nearest sampling
+ */
+export function unwrapCubemapEquirect(faces: Uint8Array[], size: number, width: number, height = width / 2): RgbaImage {
+    checkFaces(faces, size);
+
+    const data = new Uint8Array(width * height * 4);
+
+    for (let py = 0; py < height; py++) {
+        const lat = Math.PI / 2 - ((py + 0.5) / height) * Math.PI;
+        for (let px = 0; px < width; px++) {
+            const lon = ((px + 0.5) / width) * 2 * Math.PI - Math.PI;
+
+            // Left-handed Direct3D space: +Y up, +Z forward
+            const x = Math.cos(lat) * Math.sin(lon);
+            const y = Math.sin(lat);
+            const z = Math.cos(lat) * Math.cos(lon);
+
+            const ax = Math.abs(x);
+            const ay = Math.abs(y);
+            const az = Math.abs(z);
+
+            let face: number;
+            let sc: number;
+            let tc: number;
+            let ma: number;
+            if (ax >= ay && ax >= az) {
+                face = x > 0 ? 0 : 1;
+                sc = x > 0 ? -z : z;
+                tc = -y;
+                ma = ax;
+            } else if (ay >= az) {
+                face = y > 0 ? 2 : 3;
+                sc = x;
+                tc = y > 0 ? z : -z;
+                ma = ay;
+            } else {
+                face = z > 0 ? 4 : 5;
+                sc = z > 0 ? x : -x;
+                tc = -y;
+                ma = az;
+            }
+
+            const u = Math.min(size - 1, Math.floor(((sc / ma + 1) / 2) * size));
+            const v = Math.min(size - 1, Math.floor(((tc / ma + 1) / 2) * size));
+            const src = (v * size + u) * 4;
+            const dst = (py * width + px) * 4;
+            data[dst] = faces[face][src];
+            data[dst + 1] = faces[face][src + 1];
+            data[dst + 2] = faces[face][src + 2];
+            data[dst + 3] = faces[face][src + 3];
+        }
+    }
+
+    return new RgbaImage(width, height, data);
+}
@@ -0,0 +1,450 @@
+import { BinaryReader, BinaryWriter, generateMipChain, RgbaImage, type ColorSpace, type MipChainOptions } from '@bis-toolkit/utils';
+import { unwrapCubemapCross, unwrapCubemapEquirect } from './Cubemap';
+import {
+    CUBEMAP_FACES,
+    DDS_MAGIC,
+    DX10_MISC_TEXTURECUBE,
+    HEADER_CAPS2_CUBEMAP,
+    HEADER_CAPS2_VOLUME,
+    HEADER_CAPS_MIPMAP,
+    detectFormat,
+    expectedDataLength,
+    formatColorSpace,
+    mipDimension,
+    readDdsHeader,
+    writeDdsHeader,
+    type DdsFormat,
+    type DdsHeader,
+    type DdsHeaderDx10
+} from './DdsHeader';
+import {
+    decodeBC1,
+    decodeBC2,
+    decodeBC3,
+    decodeBC4,
+    decodeBC5,
+    decodeBC6H,
+    decodeBC7,
+    reconstructNormalZ,
+    toneMapRgbFloat
+} from '@bis-toolkit/bcn';
+import { decodePackedFormat, decodeRedFloat, isPackedFormat } from './PixelFormats';
+
+export interface DdsRgbaOptions {
+    /** Rebuild the blue channel of BC5 normal maps from the stored X/Y components */
+    reconstructNormalZ?: boolean;
+}
+
+export interface DdsMipMap {
+    width: number;
+    height: number;
+    data: Uint8Array;
+    /** Block storage of the mip level, only set for textures read from EDDS */
+    compression?: 'COPY' | 'LZ4';
+}
+
+/**
+ * Texture metadata returned by `Dds.probe()`
+ */
+export interface DdsProbeInfo {
+    width: number;
+    height: number;
+    format: DdsFormat;
+    formatDetails: string;
+    srgb: boolean;
+    isCubemap: boolean;
+    arraySize: number;
+    mipCount: number;
+}
+
+/**
+ * Encodes a single RGBA mip level into the texture format's block data
+ */
+export type DdsBlockEncoder = (rgba: Uint8Array, width: number, height: number) => Uint8Array;
+
+function encodeRgbaMip(rgba: Uint8Array, width: number, height: number, format: DdsFormat, encoder?: DdsBlockEncoder): Uint8Array {
+    if (encoder) {
+        return encoder(rgba, width, height);
+    }
+    switch (format) {
+        case 'RGBA8':
+            return rgba.slice();
+        case 'BGRA8':
+            return new RgbaImage(width, height, rgba).toBgra().data;
+        default:
+            throw new Error(`Format ${format} needs a block encoder`);
+    }
+}
+
+function convertToRgba(mip: DdsMipMap, format: DdsFormat, options: DdsRgbaOptions): RgbaImage {
+    const dataView = new DataView(mip.data.buffer, mip.data.byteOffset, mip.data.byteLength);
+    
+    switch (format) {
+        case 'BC1':
+            return decodeBC1(dataView, mip.width, mip.height);
+        case 'BC2':
+            return decodeBC2(dataView, mip.width, mip.height);
+        case 'BC3':
+            return decodeBC3(dataView, mip.width, mip.height);
+        case 'BC4':
+        case 'BC4S':
+            return decodeBC4(dataView, mip.width, mip.height, 'r', format === 'BC4S');
+        case 'BC5':
+        case 'BC5S': {
+            const image = decodeBC5(dataView, mip.width, mip.height, 'r', 'g', format === 'BC5S');
+            if (options.reconstructNormalZ) {
+                reconstructNormalZ(image.data);
+            }
+            return image;
+        }
+        case 'BC6':
+        case 'BC6S':
+            return new RgbaImage(mip.width, mip.height, toneMapRgbFloat(convertToRgbFloat(mip, format)));
+        case 'BC7':
+            return decodeBC7(dataView, mip.width, mip.height);
+        case 'RGBA8':
+            return new RgbaImage(mip.width, mip.height, mip.data.slice());
+        case 'BGRA8':
+            return new RgbaImage(mip.width, mip.height, mip.data, 'BGRA').toRgba();
+        default:
+            if (isPackedFormat(format)) {
+                const rgba = decodePackedFormat(mip.data, mip.width, mip.height, format);
+                return new RgbaImage(mip.width, mip.height, rgba, 'RGBA', formatColorSpace(format));
+            }
+            throw new Error(`RGBA conversion is not implemented for format ${format}`);
+    }
+}
+
+function convertToRgbFloat(mip: DdsMipMap, format: DdsFormat): Float32Array {
+    const dataView = new DataView(mip.data.buffer, mip.data.byteOffset, mip.data.byteLength);
+
+    switch (format) {
+        case 'BC6':
+            return decodeBC6H(dataView, mip.width, mip.height, false);
+        case 'BC6S':
+            return decodeBC6H(dataView, mip.width, mip.height, true);
+        case 'R16F':
+        case 'R32F': {
+            const red = decodeRedFloat(mip.data, mip.width, mip.height, format);
+            const rgb = new Float32Array(red.length * 3);
+            for (let i = 0; i < red.length; i++) {
+                rgb[i * 3] = red[i];
+            }
+            return rgb;
+        }
+        default:
+            throw new Error(`HDR conversion is not implemented for format ${format}`);
+    }
+}
+
+/**
+ * Fill a texture with encoded mip data of every layer, largest mip first
+ */
+function assignLayers(texture: Dds, width: number, height: number, format: DdsFormat, layers: Uint8Array[][]): void {
+    if (layers.length === 0 || layers[0].length === 0) {
+        throw new Error('At least one mip level is required');
+    }
+
+    texture.width = width;
+    texture.height = height;
+    texture.format = format;
+    texture.layers = layers.map((mips, layer) => {
+        if (mips.length !== layers[0].length) {
+            throw new Error(`Layer ${layer} has ${mips.length} mip levels, expected ${layers[0].length}`);
+        }
+        return mips.map((data, mipLevel) => {
+            const mipWidth = mipDimension(width, mipLevel);
+            const mipHeight = mipDimension(height, mipLevel);
+            const expected = expectedDataLength(format, mipWidth, mipHeight);
+            if (expected !== null && expected !== data.length) {
+                throw new Error(`Unexpected size of mip level ${mipLevel} (expected ${expected} bytes, got ${data.length})`);
+            }
+            return { width: mipWidth, height: mipHeight, data };
+        });
+    });
+    texture.mipmaps = texture.layers[0];
+}
+
+/**
+ * DirectDraw Surface texture: legacy FourCC/RGB mask or DX10 header, followed by every layer's mip chain
+ */
+export class Dds {
+    width = 0;
+    height = 0;
+    format: DdsFormat = 'UNKNOWN';
+    formatDetails = '';
+    mipmaps: DdsMipMap[] = [];
+    /** Mipmaps of every array slice / cubemap face, indexed [layer][mipLevel] */
+    layers: DdsMipMap[][] = [];
+    isCubemap = false;
+    arraySize = 1;
+    /** Stored with an _SRGB DXGI format */
+    srgb = false;
+
+    /**
+     * Create a texture from already encoded mip data, largest mip first
+     */
+    static fromEncodedMipmaps<T extends Dds>(this: new () => T, width: number, height: number, format: DdsFormat, mips: Uint8Array[]): T {
+        const texture = new this();
+        assignLayers(texture, width, height, format, [mips]);
+        return texture;
+    }
+
+    /**
+     * Create a cubemap or texture array from already encoded mip data of every layer, largest mip first.
+     * Cubemap layers are faces in Direct3D order (+X, -X, +Y, -Y, +Z, -Z), six per array slice.
+     */
+    static fromEncodedLayers<T extends Dds>(
+        this: new () => T,
+        width: number,
+        height: number,
+        format: DdsFormat,
+        layers: Uint8Array[][],
+        isCubemap = false
+    ): T {
+        if (isCubemap && (layers.length === 0 || layers.length % CUBEMAP_FACES !== 0)) {
+            throw new Error(`Cubemaps need a multiple of ${CUBEMAP_FACES} faces, got ${layers.length}`);
+        }
+
+        const texture = new this();
+        assignLayers(texture, width, height, format, layers);
+        texture.isCubemap = isCubemap;
+        texture.arraySize = isCubemap ? layers.length / CUBEMAP_FACES : layers.length;
+        return texture;
+    }
+
+    /**
+     * Create a texture from RGBA pixels, generating the full mip chain and encoding every level.
+     * The encoder may be omitted for RGBA8/BGRA8. Pass mip chain options to choose the filter;
+     * data formats (BC4/BC5, single channel and float formats) are filtered as linear.
+     */
+    static fromRgba<T extends Dds>(
+        this: new () => T,
+        width: number,
+        height: number,
+        rgba: Uint8Array,
+        format: DdsFormat,
+        encoder?: DdsBlockEncoder,
+        generateMipmaps: boolean | MipChainOptions = true
+    ): T {
+        if (rgba.length !== width * height * 4) {
+            throw new Error(`Expected ${width * height * 4} bytes of RGBA data, got ${rgba.length}`);
+        }
+
+        const image = new RgbaImage(width, height, rgba, 'RGBA', formatColorSpace(format));
+        const levels = generateMipmaps === false
+            ? [image]
+            : generateMipChain(image, generateMipmaps === true ? {} : generateMipmaps);
+
+        const texture = new this();
+        const mips = levels.map(level => encodeRgbaMip(level.data, level.width, level.height, format, encoder));
+        assignLayers(texture, width, height, format, [mips]);
+        return texture;
+    }
+
+    /**
+     * Read the header only, without touching any pixel data
+     */
+    static probe(buffer: Buffer | Uint8Array): DdsProbeInfo {
+        const texture = new Dds();
+        const { mipCount } = texture.readHeader(new BinaryReader(buffer), 'DDS');
+        return texture.probeInfo(mipCount);
+    }
+
+    /**
+     * Read a DDS file. Pixel data follows the header layer by layer, each with its full mip chain.
+     */
+    read(buffer: Buffer | Uint8Array): void {
+        const reader = new BinaryReader(buffer);
+        const { mipCount } = this.readHeader(reader, 'DDS');
+        if (this.format === 'UNKNOWN') {
+            throw new Error(`Unsupported DDS pixel format ${this.formatDetails}`);
+        }
+
+        this.layers = [];
+        for (let layer = 0; layer < this.layerCount; layer++) {
+            const mips: DdsMipMap[] = [];
+            for (let mipLevel = 0; mipLevel < mipCount; mipLevel++) {
+                const width = mipDimension(this.width, mipLevel);
+                const height = mipDimension(this.height, mipLevel);
+                const size = expectedDataLength(this.format, width, height) ?? 0;
+                if (reader.pos + size > reader.length) {
+                    throw new Error(`Unexpected end of DDS data in layer ${layer}, mip level ${mipLevel}`);
+                }
+                mips.push({ width, height, data: new Uint8Array(reader.readBytes(size)) });
+            }
+            this.layers.push(mips);
+        }
+
+        this.mipmaps = this.layers[0];
+    }
+
+    /**
+     * Write the texture as a DDS file
+     */
+    write(): Uint8Array {
+        if (this.layers.length === 0 || this.layers[0].length === 0) {
+            throw new Error('No mipmaps to write');
+        }
+
+        const writer = new BinaryWriter();
+        writeDdsHeader(writer, this, this.layers[0].length);
+        for (const layer of this.layers) {
+            for (const mip of layer) {
+                writer.writeBytes(mip.data);
+            }
+        }
+        return writer.getBuffer();
+    }
+
+    /**
+     * Check the magic and read the header, taking size, format and layer layout from it
+     */
+    protected readHeader(reader: BinaryReader, kind: string): { header: DdsHeader; mipCount: number } {
+        if (reader.readRawString(4) !== DDS_MAGIC) {
+            throw new Error(`File is not a valid ${kind} (missing DDS magic)`);
+        }
+
+        const { header, dx10 } = readDdsHeader(reader);
+        if ((header.caps2 & HEADER_CAPS2_VOLUME) !== 0) {
+            throw new Error('Volume textures are not supported');
+        }
+        return { header, mipCount: this.applyHeader(header, dx10) };
+    }
+
+    protected probeInfo(mipCount: number): DdsProbeInfo {
+        return {
+            width: this.width,
+            height: this.height,
+            format: this.format,
+            formatDetails: this.formatDetails,
+            srgb: this.srgb,
+            isCubemap: this.isCubemap,
+            arraySize: this.arraySize,
+            mipCount
+        };
+    }
+
+    /**
+     * Take size, format and layer layout from a parsed header. Returns the number of mip levels.
+     */
+    private applyHeader(header: DdsHeader, dx10?: DdsHeaderDx10): number {
+        this.width = header.width;
+        this.height = header.height;
+        this.isCubemap = (header.caps2 & HEADER_CAPS2_CUBEMAP) !== 0 ||
+            (dx10 !== undefined && (dx10.miscFlag & DX10_MISC_TEXTURECUBE) !== 0);
+        this.arraySize = dx10 !== undefined ? Math.max(1, dx10.arraySize) : 1;
+
+        const { format, details, srgb } = detectFormat(header, dx10);
+        this.format = format;
+        this.formatDetails = details;
+        this.srgb = srgb;
+
+        return (header.caps & HEADER_CAPS_MIPMAP) !== 0 && header.mipMapCount > 0 ? header.mipMapCount : 1;
+    }
+
+    /**
+     * Color space of the decoded pixels: linear for data formats (masks, heightmaps, normals), sRGB for color
+     */
+    get colorSpace(): ColorSpace {
+        return this.srgb ? 'srgb' : formatColorSpace(this.format);
+    }
+
+    /**
+     * Number of stored layers: array slices, times 6 faces for cubemaps
+     */
+    get layerCount(): number {
+        return this.arraySize * (this.isCubemap ? CUBEMAP_FACES : 1);
+    }
+
+    /**
+     * Get RGBA pixel data of a cubemap face (0-5: +X, -X, +Y, -Y, +Z, -Z) and mip level,
+     * optionally from a slice of a cubemap array
+     */
+    getFace(face: number, mipLevel = 0, slice = 0, options: DdsRgbaOptions = {}): RgbaImage {
+        if (!this.isCubemap) {
+            throw new Error('Texture is not a cubemap');
+        }
+        if (face < 0 || face >= CUBEMAP_FACES) {
+            throw new RangeError(`face ${face} is out of range`);
+        }
+        return this.getLayerRgbaPixelData(slice * CUBEMAP_FACES + face, mipLevel, options);
+    }
+
+    /**
+     * Get RGBA pixel data of a texture array slice and mip level. Cubemap slices hold six faces, use `getFace()` for those.
+     */
+    getSlice(slice: number, mipLevel = 0, options: DdsRgbaOptions = {}): RgbaImage {
+        if (this.isCubemap) {
+            throw new Error('Texture is a cubemap, use getFace() to select a face of the slice');
+        }
+        return this.getLayerRgbaPixelData(slice, mipLevel, options);
+    }
+
+    /**
+     * Unwrap a cubemap mip level into a 4x3 horizontal cross image
+     */
+    getCubemapCross(mipLevel = 0, slice = 0, options: DdsRgbaOptions = {}): RgbaImage {
+        return unwrapCubemapCross(this.getCubemapFaces(mipLevel, slice, options), mipDimension(this.width, mipLevel));
+    }
+
+    /**
+     * Unwrap a cubemap mip level into an equirectangular panorama
+     */
+    getEquirectangular(width: number, height = width / 2, mipLevel = 0, slice = 0, options: DdsRgbaOptions = {}): RgbaImage {
+        return unwrapCubemapEquirect(this.getCubemapFaces(mipLevel, slice, options), mipDimension(this.width, mipLevel), width, height);
+    }
+
+    private getCubemapFaces(mipLevel: number, slice: number, options: DdsRgbaOptions): Uint8Array[] {
+        const faces: Uint8Array[] = [];
+        for (let face = 0; face < CUBEMAP_FACES; face++) {
+            faces.push(this.getFace(face, mipLevel, slice, options).data);
+        }
+        return faces;
+    }
+
+    private getLayerRgbaPixelData(layer: number, mipLevel: number, options: DdsRgbaOptions): RgbaImage {
+        if (layer < 0 || layer >= this.layers.length) {
+            throw new RangeError(`layer ${layer} is out of range`);
+        }
+        const mips = this.layers[layer];
+        if (mipLevel < 0 || mipLevel >= mips.length) {
+            throw new RangeError(`mipLevel ${mipLevel} is out of range`);
+        }
+        return convertToRgba(mips[mipLevel], this.format, options);
+    }
+
+    getRgbaPixelData(mipLevel = 0, options: DdsRgbaOptions = {}): RgbaImage {
+        if (this.mipmaps.length === 0) {
+            throw new Error('No mipmaps loaded');
+        }
+        if (mipLevel < 0 || mipLevel >= this.mipmaps.length) {
+            throw new RangeError(`mipLevel ${mipLevel} is out of range`);
+        }
+
+        const mip = this.mipmaps[mipLevel];
+        return convertToRgba(mip, this.format, options);
+    }
+
+    /**
+     * Get linear RGB float pixel data (3 floats per pixel) for HDR (BC6H) and R16F/R32F textures.
+     * Single channel formats only fill red.
+     */
+    getHdrPixelData(mipLevel = 0): Float32Array {
+        if (this.mipmaps.length === 0) {
+            throw new Error('No mipmaps loaded');
+        }
+        if (mipLevel < 0 || mipLevel >= this.mipmaps.length) {
+            throw new RangeError(`mipLevel ${mipLevel} is out of range`);
+        }
+
+        return convertToRgbFloat(this.mipmaps[mipLevel], this.format);
+    }
+
+    get formatName(): string {
+        if (this.formatDetails && this.format !== 'UNKNOWN') {
+            return `${this.format} (${this.formatDetails})`;
+        }
+        return this.formatDetails || this.format;
+    }
+}
@@ -0,0 +1,520 @@
+import { type BinaryReader, type BinaryWriter, type ColorSpace } from '@bis-toolkit/utils';
+
+export const DDS_MAGIC = 'DDS ';
+const HEADER_SIZE = 124;
+const FOURCC_DX10 = fourCcToInt('DX10');
+
+const HEADER_FLAGS_TEXTURE = 0x1 | 0x2 | 0x4 | 0x1000; // CAPS | HEIGHT | WIDTH | PIXELFORMAT
+const HEADER_FLAGS_PITCH = 0x8;
+const HEADER_FLAGS_MIPMAPCOUNT = 0x20000;
+const HEADER_FLAGS_LINEARSIZE = 0x80000;
+const HEADER_CAPS_COMPLEX = 0x8;
+const HEADER_CAPS_TEXTURE = 0x1000;
+export const HEADER_CAPS_MIPMAP = 0x400000;
+const HEADER_CAPS2_CUBEMAP_ALL_FACES = 0xfe00;
+const DX10_RESOURCE_DIMENSION_TEXTURE2D = 3;
+export const HEADER_CAPS2_CUBEMAP = 0x200;
+export const HEADER_CAPS2_VOLUME = 0x200000;
+export const DX10_MISC_TEXTURECUBE = 0x4;
+export const CUBEMAP_FACES = 6;
+const PIXELFORMAT_FLAG_FOURCC = 0x4;
+const PIXELFORMAT_FLAG_RGB = 0x40;
+const PIXELFORMAT_FLAG_ALPHA_PIXELS = 0x1;
+const PIXELFORMAT_FLAG_LUMINANCE = 0x20000;
+// Legacy D3DFORMAT values stored in the FourCC field
+const D3DFMT_R16F = 111;
+const D3DFMT_R32F = 114;
+
+export type DdsFormat =
+    | 'BC1' | 'BC2' | 'BC3' | 'BC4' | 'BC4S' | 'BC5' | 'BC5S' | 'BC6' | 'BC6S' | 'BC7'
+    | 'RGBA8' | 'BGRA8' | 'R8' | 'RG8' | 'R16' | 'R16F' | 'R32F' | 'RGB10A2' | 'B5G6R5' | 'B5G5R5A1' | 'B4G4R4A4'
+    | 'UNKNOWN';
+
+export interface DdsHeader {
+    size: number;
+    flags: number;
+    height: number;
+    width: number;
+    pitchOrLinearSize: number;
+    depth: number;
+    mipMapCount: number;
+    pixelFormat: DdsPixelFormat;
+    caps: number;
+    caps2: number;
+    caps3: number;
+    caps4: number;
+}
+
+export interface DdsPixelFormat {
+    size: number;
+    flags: number;
+    fourCC: number;
+    rgbBitCount: number;
+    rMask: number;
+    gMask: number;
+    bMask: number;
+    aMask: number;
+}
+
+export interface DdsHeaderDx10 {
+    dxgiFormat: number;
+    resourceDimension: number;
+    miscFlag: number;
+    arraySize: number;
+    miscFlags2: number;
+}
+
+/**
+ * Texture properties stored in the DDS header
+ */
+export interface DdsLayout {
+    width: number;
+    height: number;
+    format: DdsFormat;
+    isCubemap: boolean;
+    arraySize: number;
+    /** Stored with an _SRGB DXGI format */
+    srgb: boolean;
+}
+
+function fourCcToInt(text: string): number {
+    if (text.length !== 4) {
+        throw new Error('FourCC needs exactly four characters');
+    }
+    return (
+        text.charCodeAt(0) |
+        (text.charCodeAt(1) << 8) |
+        (text.charCodeAt(2) << 16) |
+        (text.charCodeAt(3) << 24)
+    ) >>> 0;
+}
+
+function intToFourCc(value: number): string {
+    return String.fromCharCode(
+        value & 0xff,
+        (value >> 8) & 0xff,
+        (value >> 16) & 0xff,
+        (value >> 24) & 0xff,
+    );
+}
+
+export function readDdsHeader(reader: BinaryReader): { header: DdsHeader; dx10?: DdsHeaderDx10 } {
+    const size = reader.readUInt32();
+    if (size !== HEADER_SIZE) {
+        throw new Error(`Unexpected DDS header size ${size} (expected ${HEADER_SIZE})`);
+    }
+
+    const flags = reader.readUInt32();
+    const height = reader.readUInt32();
+    const width = reader.readUInt32();
+    const pitchOrLinearSize = reader.readUInt32();
+    const depth = reader.readUInt32();
+    const mipMapCount = reader.readUInt32();
+
+    // Skip reserved1[11]
+    reader.readBytes(11 * 4);
+
+    const pfSize = reader.readUInt32();
+    const pfFlags = reader.readUInt32();
+    const pfFourCC = reader.readUInt32();
+    const pfRgbBitCount = reader.readUInt32();
+    const pfRMask = reader.readUInt32();
+    const pfGMask = reader.readUInt32();
+    const pfBMask = reader.readUInt32();
+    const pfAMask = reader.readUInt32();
+
+    const pixelFormat: DdsPixelFormat = {
+        size: pfSize,
+        flags: pfFlags,
+        fourCC: pfFourCC >>> 0,
+        rgbBitCount: pfRgbBitCount,
+        rMask: pfRMask >>> 0,
+        gMask: pfGMask >>> 0,
+        bMask: pfBMask >>> 0,
+        aMask: pfAMask >>> 0,
+    };
+
+    const caps = reader.readUInt32();
+    const caps2 = reader.readUInt32();
+    const caps3 = reader.readUInt32();
+    const caps4 = reader.readUInt32();
+    const reserved2 = reader.readUInt32();
+    if (reserved2 !== 0) {
+        // Keep reading aligned while warning about unexpected value
+        throw new Error('Invalid DDS header: reserved2 is not zero');
+    }
+
+    const header: DdsHeader = {
+        size,
+        flags,
+        height,
+        width,
+        pitchOrLinearSize,
+        depth,
+        mipMapCount,
+        pixelFormat,
+        caps,
+        caps2,
+        caps3,
+        caps4,
+    };
+
+    if ((pixelFormat.flags & PIXELFORMAT_FLAG_FOURCC) !== 0 && pixelFormat.fourCC === FOURCC_DX10) {
+        const dxgiFormat = reader.readUInt32();
+        const resourceDimension = reader.readUInt32();
+        const miscFlag = reader.readUInt32();
+        const arraySize = reader.readUInt32();
+        const miscFlags2 = reader.readUInt32();
+
+        return {
+            header,
+            dx10: { dxgiFormat, resourceDimension, miscFlag, arraySize, miscFlags2 },
+        };
+    }
+
+    return { header };
+}
+
+/**
+ * Write the DDS magic, header and (for arrays and formats without a legacy FourCC) the DX10 extension
+ */
+export function writeDdsHeader(writer: BinaryWriter, texture: DdsLayout, mipCount: number): void {
+    const { format, width, height } = texture;
+    const topSize = expectedDataLength(format, width, height);
+    if (topSize === null) {
+        throw new Error(`Cannot write DDS with format ${format}`);
+    }
+
+    const isBlockCompressed = format.startsWith('BC');
+    const legacyFourCC = getLegacyFourCC(format);
+    const hasLegacyMasks = format === 'RGBA8' || format === 'BGRA8';
+    const useDx10 = texture.arraySize > 1 || texture.srgb || (legacyFourCC === null && !hasLegacyMasks);
+
+    let flags = HEADER_FLAGS_TEXTURE | (isBlockCompressed ? HEADER_FLAGS_LINEARSIZE : HEADER_FLAGS_PITCH);
+    let caps = HEADER_CAPS_TEXTURE;
+    if (mipCount > 1) {
+        flags |= HEADER_FLAGS_MIPMAPCOUNT;
+        caps |= HEADER_CAPS_MIPMAP | HEADER_CAPS_COMPLEX;
+    }
+    if (texture.isCubemap) {
+        caps |= HEADER_CAPS_COMPLEX;
+    }
+
+    writer.writeRawString(DDS_MAGIC);
+    writer.writeUInt32(HEADER_SIZE);
+    writer.writeUInt32(flags);
+    writer.writeUInt32(height);
+    writer.writeUInt32(width);
+    writer.writeUInt32(isBlockCompressed ? topSize : topSize / height);
+    writer.writeUInt32(0); // depth
+    writer.writeUInt32(mipCount);
+    writer.writeBytes(new Uint8Array(11 * 4)); // reserved1
+
+    writer.writeUInt32(32);
+    if (useDx10 || legacyFourCC !== null) {
+        writer.writeUInt32(PIXELFORMAT_FLAG_FOURCC);
+        writer.writeUInt32(useDx10 ? FOURCC_DX10 : fourCcToInt(legacyFourCC ?? ''));
+        writer.writeBytes(new Uint8Array(5 * 4)); // bit count and masks
+    } else {
+        writer.writeUInt32(PIXELFORMAT_FLAG_RGB | PIXELFORMAT_FLAG_ALPHA_PIXELS);
+        writer.writeUInt32(0);
+        writer.writeUInt32(32);
+        const isRgba = format === 'RGBA8';
+        writer.writeUInt32(isRgba ? 0xff : 0xff0000);
+        writer.writeUInt32(0xff00);
+        writer.writeUInt32(isRgba ? 0xff0000 : 0xff);
+        writer.writeUInt32(0xff000000);
+    }
+
+    writer.writeUInt32(caps);
+    writer.writeUInt32(texture.isCubemap ? HEADER_CAPS2_CUBEMAP | HEADER_CAPS2_CUBEMAP_ALL_FACES : 0);
+    writer.writeUInt32(0); // caps3
+    writer.writeUInt32(0); // caps4
+    writer.writeUInt32(0); // reserved2
+
+    if (useDx10) {
+        writer.writeUInt32(getDxgiFormat(format, texture.srgb));
+        writer.writeUInt32(DX10_RESOURCE_DIMENSION_TEXTURE2D);
+        writer.writeUInt32(texture.isCubemap ? DX10_MISC_TEXTURECUBE : 0);
+        writer.writeUInt32(texture.arraySize);
+        writer.writeUInt32(0); // miscFlags2
+    }
+}
+
+function getLegacyFourCC(format: DdsFormat): string | null {
+    switch (format) {
+        case 'BC1':
+            return 'DXT1';
+        case 'BC2':
+            return 'DXT3';
+        case 'BC3':
+            return 'DXT5';
+        case 'BC4':
+            return 'ATI1';
+        case 'BC4S':
+            return 'BC4S';
+        case 'BC5':
+            return 'ATI2';
+        case 'BC5S':
+            return 'BC5S';
+        default:
+            return null;
+    }
+}
+
+function getDxgiFormat(format: DdsFormat, srgb: boolean): number {
+    if (srgb) {
+        switch (format) {
+            case 'BC1': return 72;
+            case 'BC2': return 75;
+            case 'BC3': return 78;
+            case 'BC7': return 99;
+            case 'BGRA8': return 91;
+            case 'RGBA8': return 29;
+            default:
+                throw new Error(`No sRGB DXGI format for ${format}`);
+        }
+    }
+
+    switch (format) {
+        case 'BC1': return 71;
+        case 'BC2': return 74;
+        case 'BC3': return 77;
+        case 'BC4': return 80;
+        case 'BC4S': return 81;
+        case 'BC5': return 83;
+        case 'BC5S': return 84;
+        case 'BC6': return 95;
+        case 'BC6S': return 96;
+        case 'BC7': return 98;
+        case 'BGRA8': return 87;
+        case 'RGBA8': return 28;
+        case 'R8': return 61;
+        case 'RG8': return 49;
+        case 'R16': return 56;
+        case 'R16F': return 54;
+        case 'R32F': return 41;
+        case 'RGB10A2': return 24;
+        case 'B5G6R5': return 85;
+        case 'B5G5R5A1': return 86;
+        case 'B4G4R4A4': return 115;
+        default:
+            throw new Error(`No DXGI format for ${format}`);
+    }
+}
+
+/**
+ * Color space the stored values are meant to be read in. Data formats (masks, heightmaps,
+ * normals, HDR) are linear; 8-bit and smaller color formats hold sRGB encoded color.
+ */
+export function formatColorSpace(format: DdsFormat): ColorSpace {
+    switch (format) {
+        case 'BC4':
+        case 'BC4S':
+        case 'BC5':
+        case 'BC5S':
+        case 'BC6':
+        case 'BC6S':
+        case 'R8':
+        case 'RG8':
+        case 'R16':
+        case 'R16F':
+        case 'R32F':
+        case 'RGB10A2':
+            return 'linear';
+        default:
+            return 'srgb';
+    }
+}
+
+export function mipDimension(base: number, level: number): number {
+    return Math.max(1, base >> level);
+}
+
+/**
+ * Size in bytes of one mip level, or null if the format is not known
+ */
+export function expectedDataLength(format: DdsFormat, width: number, height: number): number | null {
+    switch (format) {
+        case 'BC1':
+        case 'BC4':
+        case 'BC4S': {
+            const blocksW = Math.max(1, Math.ceil(width / 4));
+            const blocksH = Math.max(1, Math.ceil(height / 4));
+            return blocksW * blocksH * 8;
+        }
+        case 'BC2':
+        case 'BC3':
+        case 'BC5':
+        case 'BC5S':
+        case 'BC6':
+        case 'BC6S':
+        case 'BC7': {
+            const blocksW = Math.max(1, Math.ceil(width / 4));
+            const blocksH = Math.max(1, Math.ceil(height / 4));
+            return blocksW * blocksH * 16;
+        }
+        case 'RGBA8':
+        case 'BGRA8':
+        case 'R32F':
+        case 'RGB10A2':
+            return width * height * 4;
+        case 'RG8':
+        case 'R16':
+        case 'R16F':
+        case 'B5G6R5':
+        case 'B5G5R5A1':
+        case 'B4G4R4A4':
+            return width * height * 2;
+        case 'R8':
+            return width * height;
+        default:
+            return null;
+    }
+}
+
+export function detectFormat(header: DdsHeader, dx10?: DdsHeaderDx10): { format: DdsFormat; details: string; srgb: boolean } {
+    if (dx10) {
+        return { ...mapDxgiFormat(dx10.dxgiFormat), details: `DXGI ${dx10.dxgiFormat}` };
+    }
+    return { ...detectLegacyFormat(header.pixelFormat), srgb: false };
+}
+
+/**
+ * Match a pre-DX10 pixel format by FourCC (including D3DFMT numbers) or channel masks
+ */
+function detectLegacyFormat(pf: DdsPixelFormat): { format: DdsFormat; details: string } {
+    if ((pf.flags & PIXELFORMAT_FLAG_FOURCC) !== 0) {
+        switch (pf.fourCC) {
+            case D3DFMT_R16F:
+                return { format: 'R16F', details: 'D3DFMT_R16F' };
+            case D3DFMT_R32F:
+                return { format: 'R32F', details: 'D3DFMT_R32F' };
+        }
+        const fourCCStr = intToFourCc(pf.fourCC).toUpperCase();
+        switch (fourCCStr) {
+            case 'DXT1':
+                return { format: 'BC1', details: fourCCStr };
+            case 'DXT2':
+            case 'DXT3':
+                return { format: 'BC2', details: fourCCStr };
+            case 'DXT4':
+            case 'DXT5':
+                return { format: 'BC3', details: fourCCStr };
+            case 'ATI1':
+            case 'BC4U':
+                return { format: 'BC4', details: fourCCStr };
+            case 'BC4S':
+                return { format: 'BC4S', details: fourCCStr };
+            case 'ATI2':
+            case 'BC5U':
+                return { format: 'BC5', details: fourCCStr };
+            case 'BC5S':
+                return { format: 'BC5S', details: fourCCStr };
+            default:
+                return { format: 'UNKNOWN', details: fourCCStr };
+        }
+    }
+
+    if ((pf.flags & PIXELFORMAT_FLAG_RGB) !== 0) {
+        if ((pf.flags & PIXELFORMAT_FLAG_ALPHA_PIXELS) !== 0 && pf.rgbBitCount === 32) {
+            if (pf.rMask === 0xff && pf.gMask === 0xff00 && pf.bMask === 0xff0000 && pf.aMask === 0xff000000) {
+                return { format: 'RGBA8', details: 'RGBA8' };
+            }
+            if (pf.rMask === 0xff0000 && pf.gMask === 0xff00 && pf.bMask === 0xff && pf.aMask === 0xff000000) {
+                return { format: 'BGRA8', details: 'BGRA8' };
+            }
+            if (pf.rMask === 0x3ff && pf.gMask === 0xffc00 && pf.bMask === 0x3ff00000 && pf.aMask === 0xc0000000) {
+                return { format: 'RGB10A2', details: 'A2B10G10R10' };
+            }
+        }
+        if (pf.rgbBitCount === 16) {
+            if (pf.rMask === 0xf800 && pf.gMask === 0x7e0 && pf.bMask === 0x1f) {
+                return { format: 'B5G6R5', details: 'R5G6B5' };
+            }
+            if (pf.rMask === 0x7c00 && pf.gMask === 0x3e0 && pf.bMask === 0x1f && pf.aMask === 0x8000) {
+                return { format: 'B5G5R5A1', details: 'A1R5G5B5' };
+            }
+            if (pf.rMask === 0xf00 && pf.gMask === 0xf0 && pf.bMask === 0xf && pf.aMask === 0xf000) {
+                return { format: 'B4G4R4A4', details: 'A4R4G4B4' };
+            }
+            if (pf.rMask === 0xff && pf.gMask === 0xff00 && pf.bMask === 0) {
+                return { format: 'RG8', details: 'G8R8' };
+            }
+            if (pf.rMask === 0xffff && pf.gMask === 0 && pf.bMask === 0) {
+                return { format: 'R16', details: 'R16' };
+            }
+        }
+        if (pf.rgbBitCount === 8 && pf.rMask === 0xff && pf.gMask === 0 && pf.bMask === 0) {
+            return { format: 'R8', details: 'R8' };
+        }
+    }
+
+    if ((pf.flags & PIXELFORMAT_FLAG_LUMINANCE) !== 0 && pf.rgbBitCount === 8) {
+        return { format: 'RGBA8', details: 'LUMINANCE8' };
+    }
+
+    return { format: 'UNKNOWN', details: 'UNKNOWN' };
+}
+
+function mapDxgiFormat(dxgiFormat: number): { format: DdsFormat; srgb: boolean } {
+    // Common DXGI values we expect in DDS/EDDS payloads
+    switch (dxgiFormat) {
+        case 71: // DXGI_FORMAT_BC1_UNORM
+            return { format: 'BC1', srgb: false };
+        case 72: // DXGI_FORMAT_BC1_UNORM_SRGB
+            return { format: 'BC1', srgb: true };
+        case 74: // DXGI_FORMAT_BC2_UNORM
+            return { format: 'BC2', srgb: false };
+        case 75: // DXGI_FORMAT_BC2_UNORM_SRGB
+            return { format: 'BC2', srgb: true };
+        case 77: // DXGI_FORMAT_BC3_UNORM
+            return { format: 'BC3', srgb: false };
+        case 78: // DXGI_FORMAT_BC3_UNORM_SRGB
+            return { format: 'BC3', srgb: true };
+        case 80: // DXGI_FORMAT_BC4_UNORM
+            return { format: 'BC4', srgb: false };
+        case 81: // DXGI_FORMAT_BC4_SNORM
+            return { format: 'BC4S', srgb: false };
+        case 83: // DXGI_FORMAT_BC5_UNORM
+            return { format: 'BC5', srgb: false };
+        case 84: // DXGI_FORMAT_BC5_SNORM
+            return { format: 'BC5S', srgb: false };
+        case 95: // DXGI_FORMAT_BC6H_UF16
+            return { format: 'BC6', srgb: false };
+        case 96: // DXGI_FORMAT_BC6H_SF16
+            return { format: 'BC6S', srgb: false };
+        case 98: // DXGI_FORMAT_BC7_UNORM
+            return { format: 'BC7', srgb: false };
+        case 99: // DXGI_FORMAT_BC7_UNORM_SRGB
+            return { format: 'BC7', srgb: true };
+        case 87: // DXGI_FORMAT_B8G8R8A8_UNORM
+            return { format: 'BGRA8', srgb: false };
+        case 91: // DXGI_FORMAT_B8G8R8A8_UNORM_SRGB
+            return { format: 'BGRA8', srgb: true };
+        case 28: // DXGI_FORMAT_R8G8B8A8_UNORM
+            return { format: 'RGBA8', srgb: false };
+        case 29: // DXGI_FORMAT_R8G8B8A8_UNORM_SRGB
+            return { format: 'RGBA8', srgb: true };
+        case 61: // DXGI_FORMAT_R8_UNORM
+            return { format: 'R8', srgb: false };
+        case 49: // DXGI_FORMAT_R8G8_UNORM
+            return { format: 'RG8', srgb: false };
+        case 56: // DXGI_FORMAT_R16_UNORM
+            return { format: 'R16', srgb: false };
+        case 54: // DXGI_FORMAT_R16_FLOAT
+            return { format: 'R16F', srgb: false };
+        case 41: // DXGI_FORMAT_R32_FLOAT
+            return { format: 'R32F', srgb: false };
+        case 24: // DXGI_FORMAT_R10G10B10A2_UNORM
+            return { format: 'RGB10A2', srgb: false };
+        case 85: // DXGI_FORMAT_B5G6R5_UNORM
+            return { format: 'B5G6R5', srgb: false };
+        case 86: // DXGI_FORMAT_B5G5R5A1_UNORM
+            return { format: 'B5G5R5A1', srgb: false };
+        case 115: // DXGI_FORMAT_B4G4R4A4_UNORM
+            return { format: 'B4G4R4A4', srgb: false };
+        default:
+            return { format: 'UNKNOWN', srgb: false };
+    }
+}
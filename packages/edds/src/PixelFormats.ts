@@ -0,0 +1,121 @@
+import { halfToFloat } from '@bis-toolkit/bcn';
+import { type DdsFormat } from './DdsHeader';
+
+/**
+ * Uncompressed formats other than RGBA8/BGRA8, decoded with Direct3D semantics:
+ * missing color channels read as 0 and a missing alpha channel as 255
+ */
+export type PackedFormat = 'R8' | 'RG8' | 'R16' | 'R16F' | 'R32F' | 'RGB10A2' | 'B5G6R5' | 'B5G5R5A1' | 'B4G4R4A4';
+
+export function isPackedFormat(format: DdsFormat): format is PackedFormat {
+    switch (format) {
+        case 'R8':
+        case 'RG8':
+        case 'R16':
+        case 'R16F':
+        case 'R32F':
+        case 'RGB10A2':
+        case 'B5G6R5':
+        case 'B5G5R5A1':
+        case 'B4G4R4A4':
+            return true;
+        default:
+            return false;
+    }
+}
+
+function unorm(value: number, max: number): number {
+    return Math.round(value * 255 / max);
+}
+
+function clampFloat(value: number): number {
+    // NaN falls through both comparisons and ends up as 0
+    return value >= 1 ? 255 : value > 0 ? Math.round(value * 255) : 0;
+}
+
+/**
+ * Read the red channel of single channel float formats as linear values
+ */
+export function decodeRedFloat(data: Uint8Array, width: number, height: number, format: 'R16F' | 'R32F'): Float32Array {
+    const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+    const count = width * height;
+    const red = new Float32Array(count);
+    for (let i = 0; i < count; i++) {
+        red[i] = format === 'R16F' ? halfToFloat(view.getUint16(i * 2, true)) : view.getFloat32(i * 4, true);
+    }
+    return red;
+}
+
+/**
+ * Expand packed pixels to 8-bit RGBA. Floats are clamped to [0, 1].
+ */
+export function decodePackedFormat(data: Uint8Array, width: number, height: number, format: PackedFormat): Uint8Array {
+    const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+    const count = width * height;
+    const rgba = new Uint8Array(count * 4);
+
+    for (let i = 0; i < count; i++) {
+        const o = i * 4;
+        let r = 0;
+        let g = 0;
+        let b = 0;
+        let a = 255;
+
+        switch (format) {
+            case 'R8':
+                r = data[i];
+                break;
+            case 'RG8':
+                r = data[i * 2];
+                g = data[i * 2 + 1];
+                break;
+            case 'R16':
+                r = unorm(view.getUint16(i * 2, true), 0xffff);
+                break;
+            case 'R16F':
+                r = clampFloat(halfToFloat(view.getUint16(i * 2, true)));
+                break;
+            case 'R32F':
+                r = clampFloat(view.getFloat32(i * 4, true));
+                break;
+            case 'RGB10A2': {
+                const v = view.getUint32(i * 4, true);
+                r = unorm(v & 0x3ff, 0x3ff);
+                g = unorm((v >>> 10) & 0x3ff, 0x3ff);
+                b = unorm((v >>> 20) & 0x3ff, 0x3ff);
+                a = (v >>> 30) * 85;
+                break;
+            }
+            case 'B5G6R5': {
+                const v = view.getUint16(i * 2, true);
+                r = unorm(v >> 11, 0x1f);
+                g = unorm((v >> 5) & 0x3f, 0x3f);
+                b = unorm(v & 0x1f, 0x1f);
+                break;
+            }
+            case 'B5G5R5A1': {
+                const v = view.getUint16(i * 2, true);
+                r = unorm((v >> 10) & 0x1f, 0x1f);
+                g = unorm((v >> 5) & 0x1f, 0x1f);
+                b = unorm(v & 0x1f, 0x1f);
+                a = (v & 0x8000) !== 0 ? 255 : 0;
+                break;
+            }
+            case 'B4G4R4A4': {
+                const v = view.getUint16(i * 2, true);
+                r = ((v >> 8) & 0xf) * 17;
+                g = ((v >> 4) & 0xf) * 17;
+                b = (v & 0xf) * 17;
+                a = (v >> 12) * 17;
+                break;
+            }
+        }
+
+        rgba[o] = r;
+        rgba[o + 1] = g;
+        rgba[o + 2] = b;
+        rgba[o + 3] = a;
+    }
+
+    return rgba;
+}
@@ -1,5 +1,24 @@
 /**
- * EDDS (compressed DDS) reader with RGBA output
+ * DDS and EDDS (compressed DDS) reader/writer with RGBA output
  */
 
-export { Edds, type EddsFormat, type EddsMipMap } from './Edds';
+export { Dds, type DdsBlockEncoder, type DdsMipMap, type DdsProbeInfo, type DdsRgbaOptions } from './Dds';
+export { type DdsFormat } from './DdsHeader';
+export {
+    Edds,
+    type EddsBlockEncoder,
+    type EddsBlockInfo,
+    type EddsFormat,
+    type EddsMipMap,
+    type EddsProbeInfo,
+    type EddsRgbaOptions
+} from './Edds';
+export { unwrapCubemapCross, unwrapCubemapEquirect } from './Cubemap';
+export {
+    RgbaImage,
+    type AlphaMode,
+    type ChannelLayout,
+    type ColorSpace,
+    type MipChainOptions,
+    type ResampleFilter
+} from '@bis-toolkit/utils';
@@ -1,5 +1,11 @@
 // Export MLOD functionality under MLOD namespace
 export * as MLOD from './mlod/index';
 
+// Export ODOL functionality under ODOL namespace
+export * as ODOL from './odol/index';
+
 // Re-export common types that don't conflict
 export { Mlod, MlodLod } from './mlod/index';
+export { Odol, OdolLod } from './odol/index';
+export { type P3D, type P3dStats } from './shared/P3d';
+export { type ILod } from './shared/Lod';
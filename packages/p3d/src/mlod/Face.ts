@@ -1,4 +1,4 @@
-import { BinaryReader } from '@bis-toolkit/utils';
+import { BinaryReader, BinaryWriter } from '@bis-toolkit/utils';
 import { Vertex } from './Vertex';
 import { FaceFlags } from './FaceFlags';
 
@@ -42,6 +42,20 @@ export class Face {
         return new Face(sidesCnt, vertices, flags, texture, material);
     }
 
+    write(writer: BinaryWriter): void {
+        writer.writeInt32(this.sidesCnt);
+
+        // Always write 4 vertices, padding with empty ones if needed
+        for (let i = 0; i < 4; i++) {
+            const vertex = this.vertices[i] ?? new Vertex(0, 0, 0, 0);
+            vertex.write(writer);
+        }
+
+        writer.writeInt32(this.flags);
+        writer.writeCString(this.texture);
+        writer.writeCString(this.material);
+    }
+
     /**
      * Get only the used vertices (based on sidesCnt)
      */
@@ -1,9 +1,9 @@
-import { BinaryReader } from '@bis-toolkit/utils';
+import { BinaryReader, BinaryWriter } from '@bis-toolkit/utils';
 import { MlodLod } from './MlodLod';
 import { P3D } from '../shared/P3d';
 
 /**
- * Main MLOD (Model LOD) file reader
+ * Main MLOD (Model LOD) file reader/writer
  * MLOD is the editable source format for Bohemia Interactive 3D models
  */
 export class Mlod implements P3D {
@@ -50,6 +50,28 @@ export class Mlod implements P3D {
         return mlod;
     }
 
+    /**
+     * Write MLOD to a new buffer
+     */
+    toBuffer(): Uint8Array {
+        const writer = new BinaryWriter();
+        this.write(writer);
+        return writer.getBuffer();
+    }
+
+    /**
+     * Write MLOD to a BinaryWriter
+     */
+    write(writer: BinaryWriter): void {
+        writer.writeRawString('MLOD');
+        writer.writeInt32(Mlod.SUPPORTED_VERSION);
+        writer.writeInt32(this.lods.length);
+
+        for (const lod of this.lods) {
+            lod.write(writer);
+        }
+    }
+
     /**
      * Get all unique textures across all LODs
      */
@@ -1,9 +1,10 @@
-import { BinaryReader } from '@bis-toolkit/utils';
+import { BinaryReader, BinaryWriter } from '@bis-toolkit/utils';
 import { type Tagg } from './Tagg';
 import { Point } from './Point';
 import { Vector3 } from './Vector3';
 import { Face } from './Face';
 import { TaggReader } from './TaggReader';
+import { TaggWriter } from './TaggWriter';
 import { getLodName } from '../shared/Resolution';
 import { ILod } from '../shared/Lod';
 
@@ -115,4 +116,31 @@ export class MlodLod implements ILod {
 
         return lod;
     }
+
+    write(writer: BinaryWriter): void {
+        writer.writeRawString('P3DM');
+        writer.writeUInt32(28);
+        writer.writeUInt32(256);
+
+        writer.writeInt32(this.vertices.length);
+        writer.writeInt32(this.normals.length);
+        writer.writeInt32(this.faces.length);
+        writer.writeUInt32(this.flags);
+
+        for (const vertex of this.vertices) {
+            vertex.write(writer);
+        }
+
+        for (const normal of this.normals) {
+            normal.write(writer);
+        }
+
+        for (const face of this.faces) {
+            face.write(writer);
+        }
+
+        TaggWriter.writeTaggs(writer, this.taggs, this.vertices.length, this.faces);
+
+        writer.writeFloat(this.resolution);
+    }
 }
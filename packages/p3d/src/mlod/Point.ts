@@ -1,6 +1,6 @@
 import { Vector3 } from './Vector3';
 import { PointFlags } from './PointFlags';
-import { BinaryReader } from '@bis-toolkit/utils';
+import { BinaryReader, BinaryWriter } from '@bis-toolkit/utils';
 
 /**
  * Represents a vertex point in 3D space with flags
@@ -21,6 +21,11 @@ export class Point extends Vector3 {
         return new Point(x, y, z, flags);
     }
 
+    override write(writer: BinaryWriter): void {
+        super.write(writer);
+        writer.writeUInt32(this.flags);
+    }
+
     /**
      * Returns a new Point with the X coordinate flipped.
      * Useful for converting between coordinate systems (e.g., MLOD to Three.js)
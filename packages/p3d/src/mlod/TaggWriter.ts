@@ -0,0 +1,156 @@
+import { BinaryWriter } from '@bis-toolkit/utils';
+import { Face } from './Face';
+import {
+    type AnimationTagg,
+    type LockTagg,
+    type MassTagg,
+    type PropertyTagg,
+    type SharpEdgesTagg,
+    type Tagg,
+    type UVSetTagg
+} from './Tagg';
+
+// eslint-disable-next-line @typescript-eslint/no-extraneous-class
+export class TaggWriter {
+    static writeTaggs(writer: BinaryWriter, taggs: Tagg[], verticesLength: number, faces: Face[]): void {
+        writer.writeRawString('TAGG');
+
+        for (const tagg of taggs) {
+            if (tagg.kind === 'EndOfFile') {
+                continue;
+            }
+
+            writer.writeUInt8(1); // active
+            writer.writeCString(tagg.name);
+            this.writeTagg(writer, tagg, verticesLength, faces);
+        }
+
+        // Every TAGG section is closed by #EndOfFile#
+        writer.writeUInt8(1);
+        writer.writeCString('#EndOfFile#');
+        writer.writeUInt32(0);
+    }
+
+    private static writeTagg(writer: BinaryWriter, tagg: Tagg, verticesLength: number, faces: Face[]): void {
+        switch (tagg.kind) {
+            case 'Animation':
+                this.writeAnimationTagg(writer, tagg);
+                break;
+            case 'Lock':
+                this.writeLockTagg(writer, tagg, verticesLength, faces.length);
+                break;
+            case 'Mass':
+                this.writeMassTagg(writer, tagg);
+                break;
+            case 'Property':
+                this.writePropertyTagg(writer, tagg);
+                break;
+            case 'Selected':
+                this.writeSelectionData(writer, tagg.name, tagg.weightedPoints, tagg.faces, verticesLength, faces.length);
+                break;
+            case 'SharpEdges':
+                this.writeSharpEdgesTagg(writer, tagg);
+                break;
+            case 'UVSet':
+                this.writeUvSetTagg(writer, tagg, faces);
+                break;
+            case 'NamedSelection':
+                this.writeSelectionData(writer, tagg.name, tagg.points, tagg.faces, verticesLength, faces.length);
+                break;
+            case 'EndOfFile':
+                writer.writeUInt32(0);
+                break;
+        }
+    }
+
+    private static writeAnimationTagg(writer: BinaryWriter, tagg: AnimationTagg): void {
+        writer.writeUInt32(4 + tagg.framePoints.length * 12);
+        writer.writeFloat(tagg.frameTime);
+        for (const point of tagg.framePoints) {
+            point.write(writer);
+        }
+    }
+
+    private static writeLockTagg(writer: BinaryWriter, tagg: LockTagg, verticesLength: number, facesLength: number): void {
+        this.ensureLength(tagg.name, 'locked points', tagg.lockedPoints.length, verticesLength);
+        this.ensureLength(tagg.name, 'locked faces', tagg.lockedFaces.length, facesLength);
+
+        writer.writeUInt32(verticesLength + facesLength);
+        for (const locked of tagg.lockedPoints) {
+            writer.writeUInt8(locked ? 1 : 0);
+        }
+        for (const locked of tagg.lockedFaces) {
+            writer.writeUInt8(locked ? 1 : 0);
+        }
+    }
+
+    private static writeMassTagg(writer: BinaryWriter, tagg: MassTagg): void {
+        writer.writeUInt32(tagg.mass.length * 4);
+        for (const mass of tagg.mass) {
+            writer.writeFloat(mass);
+        }
+    }
+
+    private static writePropertyTagg(writer: BinaryWriter, tagg: PropertyTagg): void {
+        writer.writeUInt32(128);
+        this.writeFixedString(writer, tagg.propName, 64);
+        this.writeFixedString(writer, tagg.propValue, 64);
+    }
+
+    private static writeSharpEdgesTagg(writer: BinaryWriter, tagg: SharpEdgesTagg): void {
+        writer.writeUInt32(tagg.pointIndices.length * 8);
+        for (const [a, b] of tagg.pointIndices) {
+            writer.writeUInt32(a);
+            writer.writeUInt32(b);
+        }
+    }
+
+    private static writeUvSetTagg(writer: BinaryWriter, tagg: UVSetTagg, faces: Face[]): void {
+        this.ensureLength(tagg.name, 'face UVs', tagg.faceUVs.length, faces.length);
+
+        let dataSize = 4;
+        for (let faceIdx = 0; faceIdx < faces.length; faceIdx++) {
+            this.ensureLength(tagg.name, `UVs of face ${faceIdx}`, tagg.faceUVs[faceIdx].length, faces[faceIdx].sidesCnt);
+            dataSize += faces[faceIdx].sidesCnt * 8;
+        }
+
+        writer.writeUInt32(dataSize);
+        writer.writeUInt32(tagg.uvSetNr);
+        for (const uvs of tagg.faceUVs) {
+            for (const [u, v] of uvs) {
+                writer.writeFloat(u);
+                writer.writeFloat(v);
+            }
+        }
+    }
+
+    private static writeSelectionData(
+        writer: BinaryWriter,
+        taggName: string,
+        points: Uint8Array,
+        faces: Uint8Array,
+        verticesLength: number,
+        facesLength: number
+    ): void {
+        this.ensureLength(taggName, 'points', points.length, verticesLength);
+        this.ensureLength(taggName, 'faces', faces.length, facesLength);
+
+        writer.writeUInt32(verticesLength + facesLength);
+        writer.writeBytes(points);
+        writer.writeBytes(faces);
+    }
+
+    private static writeFixedString(writer: BinaryWriter, value: string, length: number): void {
+        if (value.length > length) {
+            throw new Error(`String "${value}" exceeds fixed length of ${length} characters`);
+        }
+        writer.writeRawString(value);
+        writer.writeBytes(new Uint8Array(length - value.length));
+    }
+
+    private static ensureLength(taggName: string, what: string, actual: number, expected: number): void {
+        if (actual !== expected) {
+            throw new Error(`TAGG ${taggName} has ${actual} ${what} (expected ${expected})`);
+        }
+    }
+}
@@ -20,6 +20,12 @@ export class Vector3 {
         );
     }
 
+    write(writer: { writeFloat(value: number): void }): void {
+        writer.writeFloat(this.x);
+        writer.writeFloat(this.y);
+        writer.writeFloat(this.z);
+    }
+
     /**
      * Returns a new Vector3 with the X coordinate flipped.
      * Useful for converting between coordinate systems (e.g., MLOD to Three.js)
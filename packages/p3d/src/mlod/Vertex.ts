@@ -1,4 +1,4 @@
-import { BinaryReader } from '@bis-toolkit/utils';
+import { BinaryReader, BinaryWriter } from '@bis-toolkit/utils';
 
 /**
  * Represents a face vertex with point/normal indices and UV coordinates
@@ -18,4 +18,11 @@ export class Vertex {
         const v = reader.readFloat();
         return new Vertex(pointIndex, normalIndex, u, v);
     }
+
+    write(writer: BinaryWriter): void {
+        writer.writeInt32(this.pointIndex);
+        writer.writeInt32(this.normalIndex);
+        writer.writeFloat(this.u);
+        writer.writeFloat(this.v);
+    }
 }
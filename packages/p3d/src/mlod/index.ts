@@ -1,5 +1,5 @@
 /**
- * MLOD (Bohemia Interactive model format) reader library
+ * MLOD (Bohemia Interactive model format) reader/writer library
  */
 
 export { Mlod } from './Mlod';
@@ -11,6 +11,7 @@ export { Vector3 } from './Vector3';
 export { FaceFlags } from './FaceFlags';
 export { PointFlags } from './PointFlags';
 export { TaggReader } from './TaggReader';
+export { TaggWriter } from './TaggWriter';
 export {
 	type Tagg,
 	type AnimationTagg,
@@ -27,4 +28,4 @@ export {
 export { getLodName } from '../shared/Resolution';
 
 // Re-export utilities for convenience
-export { BinaryReader } from '@bis-toolkit/utils';
+export { BinaryReader, BinaryWriter } from '@bis-toolkit/utils';
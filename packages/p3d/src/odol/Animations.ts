@@ -0,0 +1,150 @@
+import { Vector3 } from '../mlod/Vector3';
+import { OdolReader } from './OdolReader';
+
+/**
+ * Animation transform types from model.cfg
+ */
+export enum AnimationType {
+    Rotation = 0,
+    RotationX = 1,
+    RotationY = 2,
+    RotationZ = 3,
+    Translation = 4,
+    TranslationX = 5,
+    TranslationY = 6,
+    TranslationZ = 7,
+    Direct = 8,
+    Hide = 9
+}
+
+/**
+ * Single animation class (a model.cfg Animations entry)
+ */
+export class AnimationClass {
+    public type: AnimationType = AnimationType.Rotation;
+    public name = '';
+    public source = '';
+    public minValue = 0;
+    public maxValue = 1;
+    public minPhase = 0;
+    public maxPhase = 1;
+    public animPeriod = 0;
+    public initPhase = 0;
+    public sourceAddress = 0;
+    public angle0 = 0;
+    public angle1 = 0;
+    public offset0 = 0;
+    public offset1 = 0;
+    public axisPos: Vector3 | null = null;
+    public axisDir: Vector3 | null = null;
+    public angle = 0;
+    public axisOffset = 0;
+    public hideValue = 0;
+    public unhideValue = 0;
+
+    static fromReader(reader: OdolReader): AnimationClass {
+        const anim = new AnimationClass();
+        anim.type = reader.readUInt32() as AnimationType;
+        anim.name = reader.readCString();
+        anim.source = reader.readCString();
+        anim.minValue = reader.readFloat();
+        anim.maxValue = reader.readFloat();
+        anim.minPhase = reader.readFloat();
+        anim.maxPhase = reader.readFloat();
+        if (reader.version >= 56) {
+            anim.animPeriod = reader.readFloat();
+            anim.initPhase = reader.readFloat();
+        }
+        anim.sourceAddress = reader.readUInt32();
+
+        switch (anim.type) {
+            case AnimationType.Rotation:
+            case AnimationType.RotationX:
+            case AnimationType.RotationY:
+            case AnimationType.RotationZ:
+                anim.angle0 = reader.readFloat();
+                anim.angle1 = reader.readFloat();
+                break;
+            case AnimationType.Translation:
+            case AnimationType.TranslationX:
+            case AnimationType.TranslationY:
+            case AnimationType.TranslationZ:
+                anim.offset0 = reader.readFloat();
+                anim.offset1 = reader.readFloat();
+                break;
+            case AnimationType.Direct:
+                anim.axisPos = reader.readVector3();
+                anim.axisDir = reader.readVector3();
+                anim.angle = reader.readFloat();
+                anim.axisOffset = reader.readFloat();
+                break;
+            case AnimationType.Hide:
+                anim.hideValue = reader.readFloat();
+                if (reader.version >= 55) {
+                    anim.unhideValue = reader.readFloat();
+                }
+                break;
+            default:
+                throw new Error(`Unknown animation type ${String(anim.type)} for "${anim.name}"`);
+        }
+
+        return anim;
+    }
+}
+
+/**
+ * Bone/axis binding of an animation in a specific LOD
+ */
+export interface AnimationBone {
+    boneIndex: number;
+    axisPos: Vector3 | null;
+    axisDir: Vector3 | null;
+}
+
+/**
+ * Animation classes and their per-LOD bone bindings
+ */
+export class Animations {
+    public classes: AnimationClass[] = [];
+    /** Per LOD: for each bone, the indices of animations affecting it */
+    public bonesToAnims: number[][][] = [];
+    /** Per LOD: for each animation, the bone it drives */
+    public animsToBones: AnimationBone[][] = [];
+
+    static fromReader(reader: OdolReader): Animations {
+        const animations = new Animations();
+        animations.classes = reader.readArray(r => AnimationClass.fromReader(r));
+
+        const lodCount = reader.readInt32();
+        animations.bonesToAnims = new Array<number[][]>(lodCount);
+        for (let lod = 0; lod < lodCount; lod++) {
+            const boneCount = reader.readUInt32();
+            const bones = new Array<number[]>(boneCount);
+            for (let bone = 0; bone < boneCount; bone++) {
+                const animCount = reader.readUInt32();
+                bones[bone] = new Array<number>(animCount);
+                for (let i = 0; i < animCount; i++) {
+                    bones[bone][i] = reader.readUInt32();
+                }
+            }
+            animations.bonesToAnims[lod] = bones;
+        }
+
+        animations.animsToBones = new Array<AnimationBone[]>(lodCount);
+        for (let lod = 0; lod < lodCount; lod++) {
+            animations.animsToBones[lod] = animations.classes.map(anim => {
+                const boneIndex = reader.readInt32();
+                const hasAxis = boneIndex !== -1 &&
+                    anim.type !== AnimationType.Direct &&
+                    anim.type !== AnimationType.Hide;
+                return {
+                    boneIndex,
+                    axisPos: hasAxis ? reader.readVector3() : null,
+                    axisDir: hasAxis ? reader.readVector3() : null
+                };
+            });
+        }
+
+        return animations;
+    }
+}
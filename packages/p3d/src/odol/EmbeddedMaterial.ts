@@ -0,0 +1,116 @@
+import { OdolReader } from './OdolReader';
+import { Matrix4 } from './Matrix4';
+
+export type Color = [number, number, number, number];
+
+/**
+ * Texture stage of an embedded material
+ */
+export interface StageTexture {
+    textureFilter: number;
+    texture: string;
+    stageId: number;
+    useWorldEnvMap: boolean;
+}
+
+/**
+ * UV transformation of an embedded material
+ */
+export interface StageTransform {
+    uvSource: number;
+    transform: Matrix4;
+}
+
+/**
+ * RVMAT material binarized into the LOD
+ */
+export class EmbeddedMaterial {
+    public name = '';
+    public version = 0;
+    public emissive: Color = [0, 0, 0, 0];
+    public ambient: Color = [0, 0, 0, 0];
+    public diffuse: Color = [0, 0, 0, 0];
+    public forcedDiffuse: Color = [0, 0, 0, 0];
+    public specular: Color = [0, 0, 0, 0];
+    public specular2: Color = [0, 0, 0, 0];
+    public specularPower = 0;
+    public pixelShaderId = 0;
+    public vertexShaderId = 0;
+    public mainLight = 0;
+    public fogMode = 0;
+    public surfaceFile = '';
+    public renderFlags = 0;
+    public stageTextures: StageTexture[] = [];
+    public stageTransforms: StageTransform[] = [];
+    public stageTI: StageTexture | null = null;
+
+    static fromReader(reader: OdolReader): EmbeddedMaterial {
+        const material = new EmbeddedMaterial();
+        material.name = reader.readCString();
+        material.version = reader.readUInt32();
+        material.emissive = this.readColor(reader);
+        material.ambient = this.readColor(reader);
+        material.diffuse = this.readColor(reader);
+        material.forcedDiffuse = this.readColor(reader);
+        material.specular = this.readColor(reader);
+        material.specular2 = this.readColor(reader);
+        material.specularPower = reader.readFloat();
+        material.pixelShaderId = reader.readUInt32();
+        material.vertexShaderId = reader.readUInt32();
+        material.mainLight = reader.readUInt32();
+        material.fogMode = reader.readUInt32();
+
+        const version = material.version;
+        if (version === 3) {
+            reader.readBoolean();
+        }
+        if (version >= 6) {
+            material.surfaceFile = reader.readCString();
+        }
+        if (version >= 4) {
+            reader.readUInt32(); // render flags count
+            material.renderFlags = reader.readUInt32();
+        }
+
+        const stageCount = version > 6 ? reader.readUInt32() : 1;
+        const texGenCount = version > 8 ? reader.readUInt32() : stageCount;
+
+        if (version < 8) {
+            for (let i = 0; i < stageCount; i++) {
+                material.stageTransforms.push(this.readStageTransform(reader));
+                material.stageTextures.push(this.readStageTexture(reader, version));
+            }
+        } else {
+            for (let i = 0; i < stageCount; i++) {
+                material.stageTextures.push(this.readStageTexture(reader, version));
+            }
+            for (let i = 0; i < texGenCount; i++) {
+                material.stageTransforms.push(this.readStageTransform(reader));
+            }
+        }
+
+        if (version >= 10) {
+            material.stageTI = this.readStageTexture(reader, version);
+        }
+
+        return material;
+    }
+
+    private static readColor(reader: OdolReader): Color {
+        return [reader.readFloat(), reader.readFloat(), reader.readFloat(), reader.readFloat()];
+    }
+
+    private static readStageTexture(reader: OdolReader, version: number): StageTexture {
+        const textureFilter = version >= 5 ? reader.readUInt32() : 0;
+        const texture = reader.readCString();
+        const stageId = version >= 8 ? reader.readUInt32() : 0;
+        const useWorldEnvMap = version >= 11 ? reader.readBoolean() : false;
+        return { textureFilter, texture, stageId, useWorldEnvMap };
+    }
+
+    private static readStageTransform(reader: OdolReader): StageTransform {
+        const uvSource = reader.readUInt32();
+        const transform = Matrix4.fromReader(reader);
+        return { uvSource, transform };
+    }
+}
@@ -0,0 +1,17 @@
+import { OdolReader } from './OdolReader';
+
+/**
+ * Represents a binarized polygon (triangle or quad) referencing vertex table entries
+ */
+export class Face {
+    constructor(public vertexIndices: number[]) {}
+
+    static fromReader(reader: OdolReader): Face {
+        const count = reader.readByte();
+        const vertexIndices = new Array<number>(count);
+        for (let i = 0; i < count; i++) {
+            vertexIndices[i] = reader.readVertexIndex();
+        }
+        return new Face(vertexIndices);
+    }
+}
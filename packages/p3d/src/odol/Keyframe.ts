@@ -0,0 +1,22 @@
+import { Vector3 } from '../mlod/Vector3';
+import { OdolReader } from './OdolReader';
+
+/**
+ * Animation keyframe storing a full set of point positions
+ */
+export class Keyframe {
+    constructor(
+        public time: number,
+        public points: Vector3[]
+    ) {}
+
+    static fromReader(reader: OdolReader): Keyframe {
+        const time = reader.readFloat();
+        const count = reader.readUInt32();
+        const points = new Array<Vector3>(count);
+        for (let i = 0; i < count; i++) {
+            points[i] = reader.readVector3();
+        }
+        return new Keyframe(time, points);
+    }
+}
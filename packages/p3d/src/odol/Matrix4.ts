@@ -0,0 +1,22 @@
+import { Vector3 } from '../mlod/Vector3';
+import { OdolReader } from './OdolReader';
+
+/**
+ * 4x3 transformation matrix (3x3 orientation followed by a position)
+ */
+export class Matrix4 {
+    constructor(
+        public aside: Vector3 = new Vector3(1, 0, 0),
+        public up: Vector3 = new Vector3(0, 1, 0),
+        public dir: Vector3 = new Vector3(0, 0, 1),
+        public position: Vector3 = new Vector3()
+    ) {}
+
+    static fromReader(reader: OdolReader): Matrix4 {
+        const aside = reader.readVector3();
+        const up = reader.readVector3();
+        const dir = reader.readVector3();
+        const position = reader.readVector3();
+        return new Matrix4(aside, up, dir, position);
+    }
+}
@@ -0,0 +1,166 @@
+import { Vector3 } from '../mlod/Vector3';
+import { OdolReader } from './OdolReader';
+import { Skeleton } from './Skeleton';
+
+/**
+ * Model-wide information stored after the LOD resolution table
+ */
+export class ModelInfo {
+    public special = 0;
+    public boundingSphere = 0;
+    public geometrySphere = 0;
+    public remarks = 0;
+    public andHints = 0;
+    public orHints = 0;
+    public aimingCenter: Vector3 = new Vector3();
+    public color = 0;
+    public colorType = 0;
+    public viewDensity = 0;
+    public bboxMin: Vector3 = new Vector3();
+    public bboxMax: Vector3 = new Vector3();
+    public lodDensityCoef = 1;
+    public drawImportance = 1;
+    public bboxMinVisual: Vector3 = new Vector3();
+    public bboxMaxVisual: Vector3 = new Vector3();
+    public boundingCenter: Vector3 = new Vector3();
+    public geometryCenter: Vector3 = new Vector3();
+    public centerOfMass: Vector3 = new Vector3();
+    public invInertia: Vector3[] = [];
+    public autoCenter = false;
+    public lockAutoCenter = false;
+    public canOcclude = false;
+    public canBeOccluded = false;
+    public aiCovers = false;
+    public htMin = 0;
+    public htMax = 0;
+    public afMax = 0;
+    public mfMax = 0;
+    public mFact = 0;
+    public tBody = 0;
+    public forceNotAlphaModel = false;
+    public sbSource = 0;
+    public preferShadowVolume = false;
+    public shadowOffset = 0;
+    public animated = false;
+    public skeleton: Skeleton = new Skeleton();
+    public mapType = 0;
+    public massArray: number[] = [];
+    public mass = 0;
+    public invMass = 0;
+    public armor = 0;
+    public invArmor = 0;
+    public explosionShielding = 0;
+    public geometrySimple = -1;
+    public geometryPhys = -1;
+    public memory = -1;
+    public geometry = -1;
+    public geometryFire = -1;
+    public geometryView = -1;
+    public geometryViewPilot = -1;
+    public geometryViewGunner = -1;
+    public geometryViewCargo = -1;
+    public landContact = -1;
+    public roadway = -1;
+    public paths = -1;
+    public hitpoints = -1;
+    public minShadow = 0;
+    public canBlend = false;
+    public propertyClass = '';
+    public propertyDamage = '';
+    public propertyFrequent = false;
+    public preferredShadowVolumeLod: number[] = [];
+    public preferredShadowBufferLod: number[] = [];
+    public preferredShadowBufferLodVis: number[] = [];
+
+    static fromReader(reader: OdolReader, lodCount: number): ModelInfo {
+        const info = new ModelInfo();
+        const version = reader.version;
+
+        info.special = reader.readInt32();
+        info.boundingSphere = reader.readFloat();
+        info.geometrySphere = reader.readFloat();
+        info.remarks = reader.readInt32();
+        info.andHints = reader.readInt32();
+        info.orHints = reader.readInt32();
+        info.aimingCenter = reader.readVector3();
+        info.color = reader.readUInt32();
+        info.colorType = reader.readUInt32();
+        info.viewDensity = reader.readFloat();
+        info.bboxMin = reader.readVector3();
+        info.bboxMax = reader.readVector3();
+        if (version >= 70) info.lodDensityCoef = reader.readFloat();
+        if (version >= 71) info.drawImportance = reader.readFloat();
+        if (version >= 52) {
+            info.bboxMinVisual = reader.readVector3();
+            info.bboxMaxVisual = reader.readVector3();
+        }
+        info.boundingCenter = reader.readVector3();
+        info.geometryCenter = reader.readVector3();
+        info.centerOfMass = reader.readVector3();
+        info.invInertia = [reader.readVector3(), reader.readVector3(), reader.readVector3()];
+        info.autoCenter = reader.readBoolean();
+        info.lockAutoCenter = reader.readBoolean();
+        info.canOcclude = reader.readBoolean();
+        info.canBeOccluded = reader.readBoolean();
+        if (version >= 73) info.aiCovers = reader.readBoolean();
+        if (version >= 42) {
+            info.htMin = reader.readFloat();
+            info.htMax = reader.readFloat();
+            info.afMax = reader.readFloat();
+            info.mfMax = reader.readFloat();
+        }
+        if (version >= 43) {
+            info.mFact = reader.readFloat();
+            info.tBody = reader.readFloat();
+        }
+        if (version >= 33) info.forceNotAlphaModel = reader.readBoolean();
+        if (version >= 37) {
+            info.sbSource = reader.readInt32();
+            info.preferShadowVolume = reader.readBoolean();
+        }
+        if (version >= 48) info.shadowOffset = reader.readFloat();
+        info.animated = reader.readBoolean();
+        info.skeleton = Skeleton.fromReader(reader);
+        info.mapType = reader.readByte();
+        info.massArray = reader.readCompressedArray(r => r.readFloat(), 4);
+        info.mass = reader.readFloat();
+        info.invMass = reader.readFloat();
+        info.armor = reader.readFloat();
+        info.invArmor = reader.readFloat();
+        if (version >= 72) info.explosionShielding = reader.readFloat();
+        if (version >= 53) info.geometrySimple = this.readLodIndex(reader);
+        if (version >= 54) info.geometryPhys = this.readLodIndex(reader);
+        info.memory = this.readLodIndex(reader);
+        info.geometry = this.readLodIndex(reader);
+        info.geometryFire = this.readLodIndex(reader);
+        info.geometryView = this.readLodIndex(reader);
+        info.geometryViewPilot = this.readLodIndex(reader);
+        info.geometryViewGunner = this.readLodIndex(reader);
+        this.readLodIndex(reader); // obsolete commander view geometry, always -1
+        info.geometryViewCargo = this.readLodIndex(reader);
+        info.landContact = this.readLodIndex(reader);
+        info.roadway = this.readLodIndex(reader);
+        info.paths = this.readLodIndex(reader);
+        info.hitpoints = this.readLodIndex(reader);
+        info.minShadow = reader.readUInt32();
+        if (version >= 38) info.canBlend = reader.readBoolean();
+        info.propertyClass = reader.readCString();
+        info.propertyDamage = reader.readCString();
+        info.propertyFrequent = reader.readBoolean();
+        if (version >= 31) reader.readUInt32(); // always zero
+        if (version >= 57) {
+            info.preferredShadowVolumeLod = reader.readInt32Array(lodCount);
+            info.preferredShadowBufferLod = reader.readInt32Array(lodCount);
+            info.preferredShadowBufferLodVis = reader.readInt32Array(lodCount);
+        }
+
+        return info;
+    }
+
+    /**
+     * LOD indices are stored as signed bytes, -1 meaning "not present"
+     */
+    private static readLodIndex(reader: OdolReader): number {
+        return (reader.readByte() << 24) >> 24;
+    }
+}
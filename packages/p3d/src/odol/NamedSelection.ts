@@ -0,0 +1,26 @@
+import { OdolReader } from './OdolReader';
+
+/**
+ * Named selection of a binarized LOD
+ */
+export class NamedSelection {
+    public name = '';
+    public selectedFaces: number[] = [];
+    public isSectional = false;
+    public sections: number[] = [];
+    public selectedVertices: number[] = [];
+    public selectedVerticesWeights: Uint8Array = new Uint8Array(0);
+
+    static fromReader(reader: OdolReader): NamedSelection {
+        const selection = new NamedSelection();
+        selection.name = reader.readCString();
+        selection.selectedFaces = reader.readCompressedVertexIndexArray();
+        reader.readInt32(); // always zero
+        selection.isSectional = reader.readBoolean();
+        selection.sections = reader.readCompressedIntArray();
+        selection.selectedVertices = reader.readCompressedVertexIndexArray();
+        const weightsCount = reader.readInt32();
+        selection.selectedVerticesWeights = reader.readCompressed(weightsCount);
+        return selection;
+    }
+}
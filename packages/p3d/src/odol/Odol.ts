@@ -0,0 +1,169 @@
+import { OdolReader } from './OdolReader';
+import { OdolLod } from './OdolLod';
+import { ModelInfo } from './ModelInfo';
+import { Animations } from './Animations';
+import { P3D, P3dStats } from '../shared/P3d';
+
+/**
+ * Summary of a LOD that is streamed on demand (stored in the header for non-permanent LODs)
+ */
+export interface LoadableLodInfo {
+    faceCount: number;
+    color: number;
+    special: number;
+    orHints: number;
+    hasSkeleton: boolean;
+    vertexCount: number;
+    faceArea: number;
+}
+
+/**
+ * Main ODOL (binarized model) file reader
+ * ODOL is the optimized format produced by Binarize and shipped in game PBOs
+ */
+export class Odol implements P3D {
+    public version: number = 0;
+    public appId = 0;
+    public prefix = '';
+    public modelInfo: ModelInfo = new ModelInfo();
+    public animations: Animations | null = null;
+    public lods: OdolLod[] = [];
+    public lodInfos: (LoadableLodInfo | null)[] = [];
+
+    public static readonly MIN_VERSION = 28;
+    public static readonly MAX_VERSION = 73;
+
+    /**
+     * Read ODOL from a buffer
+     */
+    static fromBuffer(buffer: Buffer | Uint8Array): Odol {
+        const reader = new OdolReader(buffer);
+        return Odol.fromReader(reader);
+    }
+
+    /**
+     * Read ODOL from an OdolReader
+     */
+    static fromReader(reader: OdolReader): Odol {
+        const odol = new Odol();
+
+        const signature = reader.readString(4);
+        if (signature !== 'ODOL') {
+            throw new Error(`Expected ODOL signature, got: ${signature}`);
+        }
+
+        odol.version = reader.readInt32();
+        if (odol.version < Odol.MIN_VERSION || odol.version > Odol.MAX_VERSION) {
+            throw new Error(`Unsupported ODOL version: ${odol.version} (expected ${Odol.MIN_VERSION}-${Odol.MAX_VERSION})`);
+        }
+
+        reader.version = odol.version;
+        reader.useLzoCompression = odol.version >= 44;
+        reader.useCompressionFlag = odol.version >= 64;
+
+        if (odol.version >= 59) {
+            odol.appId = reader.readUInt32();
+        }
+        if (odol.version >= 58) {
+            odol.prefix = reader.readCString();
+        }
+
+        const lodCount = reader.readInt32();
+        const resolutions = reader.readFloatArray(lodCount);
+
+        odol.modelInfo = ModelInfo.fromReader(reader, lodCount);
+
+        if (odol.version >= 30 && reader.readBoolean()) {
+            odol.animations = Animations.fromReader(reader);
+        }
+
+        const lodStarts = new Array<number>(lodCount);
+        const lodEnds = new Array<number>(lodCount);
+        const permanent = new Array<boolean>(lodCount);
+        for (let i = 0; i < lodCount; i++) lodStarts[i] = reader.readUInt32();
+        for (let i = 0; i < lodCount; i++) lodEnds[i] = reader.readUInt32();
+        for (let i = 0; i < lodCount; i++) permanent[i] = reader.readBoolean();
+
+        odol.lodInfos = new Array<LoadableLodInfo | null>(lodCount);
+        for (let i = 0; i < lodCount; i++) {
+            odol.lodInfos[i] = permanent[i] ? null : this.readLoadableLodInfo(reader);
+        }
+
+        odol.lods = new Array<OdolLod>(lodCount);
+        for (let i = 0; i < lodCount; i++) {
+            if (lodStarts[i] === lodEnds[i]) {
+                // LOD without any stored data
+                const lod = new OdolLod();
+                lod.resolution = resolutions[i];
+                odol.lods[i] = lod;
+                continue;
+            }
+
+            reader.seek(lodStarts[i]);
+            odol.lods[i] = OdolLod.fromReader(reader, resolutions[i]);
+            reader.seek(lodEnds[i]);
+        }
+
+        return odol;
+    }
+
+    private static readLoadableLodInfo(reader: OdolReader): LoadableLodInfo {
+        const faceCount = reader.readInt32();
+        const color = reader.readUInt32();
+        const special = reader.readInt32();
+        const orHints = reader.readUInt32();
+        const hasSkeleton = reader.version >= 39 ? reader.readBoolean() : false;
+        let vertexCount = 0;
+        let faceArea = 0;
+        if (reader.version >= 51) {
+            vertexCount = reader.readInt32();
+            faceArea = reader.readFloat();
+        }
+        return { faceCount, color, special, orHints, hasSkeleton, vertexCount, faceArea };
+    }
+
+    /**
+     * Get all unique textures across all LODs
+     */
+    get allTextures(): string[] {
+        const textures = new Set<string>();
+        for (const lod of this.lods) {
+            for (const texture of lod.textures) {
+                if (texture) {
+                    textures.add(texture);
+                }
+            }
+        }
+        return Array.from(textures);
+    }
+
+    /**
+     * Get all unique materials across all LODs
+     */
+    get allMaterials(): string[] {
+        const materials = new Set<string>();
+        for (const lod of this.lods) {
+            for (const material of lod.materialNames) {
+                materials.add(material);
+            }
+        }
+        return Array.from(materials);
+    }
+
+    /**
+     * Get statistics about the model
+     */
+    getStats(): P3dStats {
+        return {
+            version: this.version,
+            lodCount: this.lods.length,
+            totalVertices: this.lods.reduce((sum, lod) => sum + lod.verticesCount, 0),
+            totalFaces: this.lods.reduce((sum, lod) => sum + lod.facesCount, 0),
+            textures: this.allTextures,
+            materials: this.allMaterials,
+            mass: this.modelInfo.mass,
+            skeleton: this.modelInfo.skeleton.name,
+            hasAnimations: this.animations !== null
+        };
+    }
+}
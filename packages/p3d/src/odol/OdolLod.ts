@@ -0,0 +1,118 @@
+import { Vector3 } from '../mlod/Vector3';
+import { getLodName } from '../shared/Resolution';
+import { ILod } from '../shared/Lod';
+import { OdolReader } from './OdolReader';
+import { ProxyObject } from './ProxyObject';
+import { EmbeddedMaterial } from './EmbeddedMaterial';
+import { Polygons } from './Polygons';
+import { Section } from './Section';
+import { NamedSelection } from './NamedSelection';
+import { Keyframe } from './Keyframe';
+import { VertexData } from './VertexData';
+
+/**
+ * Represents a single binarized LOD of an ODOL model
+ */
+export class OdolLod implements ILod {
+    public resolution: number = 0;
+    public proxies: ProxyObject[] = [];
+    public subSkeletonsToSkeleton: number[] = [];
+    public skeletonToSubSkeleton: number[][] = [];
+    public vertexCount = 0;
+    public faceArea = 0;
+    public orHints = 0;
+    public andHints = 0;
+    public boundingMin: Vector3 = new Vector3();
+    public boundingMax: Vector3 = new Vector3();
+    public boundingCenter: Vector3 = new Vector3();
+    public boundingRadius = 0;
+    public textures: string[] = [];
+    public materials: EmbeddedMaterial[] = [];
+    public pointToVertex: number[] = [];
+    public vertexToPoint: number[] = [];
+    public polygons: Polygons = new Polygons();
+    public sections: Section[] = [];
+    public namedSelections: NamedSelection[] = [];
+    public namedProperties: [string, string][] = [];
+    public frames: Keyframe[] = [];
+    public colorTop = 0;
+    public color = 0;
+    public special = 0;
+    public vertexBoneRefIsSimple = false;
+    public vertexData: VertexData = new VertexData();
+
+    get resolutionName(): string {
+        return getLodName(this.resolution);
+    }
+
+    get verticesCount(): number {
+        return this.vertexData.vertices.length;
+    }
+
+    get facesCount(): number {
+        return this.polygons.faces.length;
+    }
+
+    /**
+     * Get unique material names used in this LOD
+     */
+    get materialNames(): string[] {
+        const names = new Set<string>();
+        for (const material of this.materials) {
+            if (material.name) {
+                names.add(material.name);
+            }
+        }
+        return Array.from(names);
+    }
+
+    static fromReader(reader: OdolReader, resolution: number): OdolLod {
+        const lod = new OdolLod();
+        lod.resolution = resolution;
+
+        lod.proxies = reader.readArray(r => ProxyObject.fromReader(r));
+        lod.subSkeletonsToSkeleton = reader.readInt32Array(reader.readInt32());
+        lod.skeletonToSubSkeleton = reader.readArray(r => r.readInt32Array(r.readInt32()));
+
+        if (reader.version >= 50) {
+            lod.vertexCount = reader.readUInt32();
+        } else {
+            lod.vertexCount = reader.readCondensedIntArray().length;
+        }
+
+        if (reader.version >= 51) {
+            lod.faceArea = reader.readFloat();
+        }
+        lod.orHints = reader.readInt32();
+        lod.andHints = reader.readInt32();
+        lod.boundingMin = reader.readVector3();
+        lod.boundingMax = reader.readVector3();
+        lod.boundingCenter = reader.readVector3();
+        lod.boundingRadius = reader.readFloat();
+
+        lod.textures = reader.readStringArray();
+        lod.materials = reader.readArray(r => EmbeddedMaterial.fromReader(r));
+        lod.pointToVertex = reader.readCompressedVertexIndexArray();
+        lod.vertexToPoint = reader.readCompressedVertexIndexArray();
+        lod.polygons = Polygons.fromReader(reader);
+        lod.sections = reader.readArray(r => Section.fromReader(r));
+        lod.namedSelections = reader.readArray(r => NamedSelection.fromReader(r));
+
+        const propertyCount = reader.readUInt32();
+        lod.namedProperties = new Array<[string, string]>(propertyCount);
+        for (let i = 0; i < propertyCount; i++) {
+            lod.namedProperties[i] = [reader.readCString(), reader.readCString()];
+        }
+
+        lod.frames = reader.readArray(r => Keyframe.fromReader(r));
+        lod.colorTop = reader.readInt32();
+        lod.color = reader.readInt32();
+        lod.special = reader.readInt32();
+        lod.vertexBoneRefIsSimple = reader.readBoolean();
+        reader.readUInt32(); // size of the remaining vertex data
+
+        lod.vertexData = VertexData.fromReader(reader);
+
+        return lod;
+    }
+}
@@ -0,0 +1,138 @@
+import { BinaryReader, lzoDecompressWithSize, lzssDecompress } from '@bis-toolkit/utils';
+import { Vector3 } from '../mlod/Vector3';
+
+/**
+ * Binary reader aware of the ODOL version and its compressed array encodings
+ */
+export class OdolReader extends BinaryReader {
+    public version = 0;
+    public useLzoCompression = false;
+    public useCompressionFlag = false;
+
+    /**
+     * Read a block of data that may be LZO/LZSS compressed, depending on the ODOL version
+     */
+    readCompressed(expectedSize: number): Uint8Array {
+        if (expectedSize === 0) {
+            return new Uint8Array(0);
+        }
+
+        if (this.useLzoCompression) {
+            let compressed = expectedSize >= 1024;
+            if (this.useCompressionFlag) {
+                compressed = this.readBoolean();
+            }
+
+            if (!compressed) {
+                return this.readBytes(expectedSize);
+            }
+
+            const result = lzoDecompressWithSize(this.buffer.subarray(this.position), expectedSize);
+            this.position += result.bytesRead;
+            return result.data;
+        }
+
+        if (expectedSize < 1024) {
+            return this.readBytes(expectedSize);
+        }
+
+        const result = lzssDecompress(this.buffer, this.position, expectedSize, true);
+        this.position += result.bytesRead;
+        return result.data;
+    }
+
+    /**
+     * Read a counted array whose payload is stored as a compressed block
+     */
+    readCompressedArray<T>(readElement: (reader: BinaryReader) => T, elementSize: number): T[] {
+        const count = this.readInt32();
+        const data = this.readCompressed(count * elementSize);
+        return OdolReader.parseElements(data, count, readElement);
+    }
+
+    /**
+     * Read a counted array that is either filled with a single default value or stored compressed
+     */
+    readCondensedArray<T>(readElement: (reader: BinaryReader) => T, elementSize: number): T[] {
+        const count = this.readInt32();
+        const defaultFill = this.readBoolean();
+        if (defaultFill) {
+            const value = readElement(this);
+            return new Array<T>(count).fill(value);
+        }
+
+        const data = this.readCompressed(count * elementSize);
+        return OdolReader.parseElements(data, count, readElement);
+    }
+
+    readCompressedIntArray(): number[] {
+        return this.readCompressedArray(r => r.readInt32(), 4);
+    }
+
+    readCondensedIntArray(): number[] {
+        return this.readCondensedArray(r => r.readInt32(), 4);
+    }
+
+    /**
+     * Vertex indices are 16-bit before ODOL v69 and 32-bit afterwards
+     */
+    readCompressedVertexIndexArray(): number[] {
+        return this.version >= 69
+            ? this.readCompressedIntArray()
+            : this.readCompressedArray(r => r.readUInt16(), 2);
+    }
+
+    readVertexIndex(): number {
+        return this.version >= 69 ? this.readInt32() : this.readUInt16();
+    }
+
+    readVector3(): Vector3 {
+        return Vector3.fromReader(this);
+    }
+
+    readFloatArray(count: number): number[] {
+        const values = new Array<number>(count);
+        for (let i = 0; i < count; i++) {
+            values[i] = this.readFloat();
+        }
+        return values;
+    }
+
+    readInt32Array(count: number): number[] {
+        const values = new Array<number>(count);
+        for (let i = 0; i < count; i++) {
+            values[i] = this.readInt32();
+        }
+        return values;
+    }
+
+    readStringArray(): string[] {
+        const count = this.readInt32();
+        const values = new Array<string>(count);
+        for (let i = 0; i < count; i++) {
+            values[i] = this.readCString();
+        }
+        return values;
+    }
+
+    /**
+     * Read a counted array of structures
+     */
+    readArray<T>(readElement: (reader: OdolReader) => T): T[] {
+        const count = this.readInt32();
+        const values = new Array<T>(count);
+        for (let i = 0; i < count; i++) {
+            values[i] = readElement(this);
+        }
+        return values;
+    }
+
+    private static parseElements<T>(data: Uint8Array, count: number, readElement: (reader: BinaryReader) => T): T[] {
+        const reader = new BinaryReader(data);
+        const values = new Array<T>(count);
+        for (let i = 0; i < count; i++) {
+            values[i] = readElement(reader);
+        }
+        return values;
+    }
+}
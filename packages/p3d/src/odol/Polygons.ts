@@ -0,0 +1,25 @@
+import { OdolReader } from './OdolReader';
+import { Face } from './Face';
+
+/**
+ * Polygon table of a binarized LOD
+ */
+export class Polygons {
+    public faces: Face[] = [];
+    public sectionsOffset = 0;
+
+    static fromReader(reader: OdolReader): Polygons {
+        const polygons = new Polygons();
+
+        const faceCount = reader.readUInt32();
+        polygons.sectionsOffset = reader.readUInt32();
+        reader.readUInt16(); // always zero
+
+        polygons.faces = new Array<Face>(faceCount);
+        for (let i = 0; i < faceCount; i++) {
+            polygons.faces[i] = Face.fromReader(reader);
+        }
+
+        return polygons;
+    }
+}
@@ -0,0 +1,27 @@
+import { OdolReader } from './OdolReader';
+import { Matrix4 } from './Matrix4';
+
+/**
+ * Proxy model placed inside a LOD
+ */
+export class ProxyObject {
+    public model = '';
+    public transform: Matrix4 = new Matrix4();
+    public sequenceId = 0;
+    public namedSelectionIndex = -1;
+    public boneIndex = -1;
+    public sectionIndex = -1;
+
+    static fromReader(reader: OdolReader): ProxyObject {
+        const proxy = new ProxyObject();
+        proxy.model = reader.readCString();
+        proxy.transform = Matrix4.fromReader(reader);
+        proxy.sequenceId = reader.readInt32();
+        proxy.namedSelectionIndex = reader.readInt32();
+        proxy.boneIndex = reader.readInt32();
+        if (reader.version >= 40) {
+            proxy.sectionIndex = reader.readInt32();
+        }
+        return proxy;
+    }
+}
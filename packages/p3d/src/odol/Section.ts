@@ -0,0 +1,44 @@
+import { OdolReader } from './OdolReader';
+
+/**
+ * Range of polygons sharing the same texture, material and flags
+ */
+export class Section {
+    public faceLowerIndex = 0;
+    public faceUpperIndex = 0;
+    public minBoneIndex = 0;
+    public bonesCount = 0;
+    public commonPointUserValue = 0;
+    public textureIndex = -1;
+    public faceFlags = 0;
+    public materialIndex = -1;
+    public material = '';
+    public areaOverTex: number[] = [];
+
+    static fromReader(reader: OdolReader): Section {
+        const section = new Section();
+        section.faceLowerIndex = reader.readInt32();
+        section.faceUpperIndex = reader.readInt32();
+        section.minBoneIndex = reader.readInt32();
+        section.bonesCount = reader.readInt32();
+        section.commonPointUserValue = reader.readUInt32();
+        section.textureIndex = reader.readInt16();
+        section.faceFlags = reader.readInt32();
+        section.materialIndex = reader.readInt32();
+        if (section.materialIndex === -1) {
+            section.material = reader.readCString();
+        }
+
+        if (reader.version >= 36) {
+            const stageCount = reader.readUInt32();
+            section.areaOverTex = reader.readFloatArray(stageCount);
+            if (reader.version >= 67 && reader.readInt32() >= 1) {
+                reader.readFloatArray(11); // unknown per-section values
+            }
+        } else {
+            section.areaOverTex = [reader.readFloat()];
+        }
+
+        return section;
+    }
+}
@@ -0,0 +1,42 @@
+import { OdolReader } from './OdolReader';
+
+export interface Bone {
+    name: string;
+    parent: string;
+}
+
+/**
+ * Model skeleton (bone hierarchy) referenced by model.cfg
+ */
+export class Skeleton {
+    public name = '';
+    public isDiscrete = false;
+    public bones: Bone[] = [];
+    public pivotsName = '';
+
+    static fromReader(reader: OdolReader): Skeleton {
+        const skeleton = new Skeleton();
+        skeleton.name = reader.readCString();
+        if (skeleton.name === '') {
+            return skeleton;
+        }
+
+        if (reader.version >= 23) {
+            skeleton.isDiscrete = reader.readBoolean();
+        }
+
+        const boneCount = reader.readInt32();
+        skeleton.bones = new Array<Bone>(boneCount);
+        for (let i = 0; i < boneCount; i++) {
+            const name = reader.readCString();
+            const parent = reader.readCString();
+            skeleton.bones[i] = { name, parent };
+        }
+
+        if (reader.version > 40) {
+            skeleton.pivotsName = reader.readCString();
+        }
+
+        return skeleton;
+    }
+}
@@ -0,0 +1,64 @@
+import { BinaryReader } from '@bis-toolkit/utils';
+import { OdolReader } from './OdolReader';
+
+/**
+ * Per-vertex texture coordinates of a LOD.
+ * Since ODOL v45 coordinates are quantized to 16 bits within the [min, max] range.
+ */
+export class UVSet {
+    public minU = 0;
+    public minV = 0;
+    public maxU = 1;
+    public maxV = 1;
+    public vertexCount = 0;
+    public isCompressed = false;
+    public defaultFill = false;
+    public data: Uint8Array = new Uint8Array(0);
+
+    static fromReader(reader: OdolReader): UVSet {
+        const uvSet = new UVSet();
+        uvSet.isCompressed = reader.version >= 45;
+        if (uvSet.isCompressed) {
+            uvSet.minU = reader.readFloat();
+            uvSet.minV = reader.readFloat();
+            uvSet.maxU = reader.readFloat();
+            uvSet.maxV = reader.readFloat();
+        }
+
+        uvSet.vertexCount = reader.readUInt32();
+        uvSet.defaultFill = reader.readBoolean();
+
+        const elementSize = uvSet.isCompressed ? 4 : 8;
+        uvSet.data = uvSet.defaultFill
+            ? reader.readBytes(elementSize)
+            : reader.readCompressed(uvSet.vertexCount * elementSize);
+
+        return uvSet;
+    }
+
+    /**
+     * Get decoded UV coordinates as interleaved (u, v) pairs
+     */
+    getUVData(): Float32Array {
+        const result = new Float32Array(this.vertexCount * 2);
+        const reader = new BinaryReader(this.data);
+        const scaleU = (this.maxU - this.minU) / 65534;
+        const scaleV = (this.maxV - this.minV) / 65534;
+
+        for (let i = 0; i < this.vertexCount; i++) {
+            if (this.defaultFill) {
+                reader.seek(0);
+            }
+
+            if (this.isCompressed) {
+                result[i * 2] = (reader.readInt16() + 32767) * scaleU + this.minU;
+                result[i * 2 + 1] = (reader.readInt16() + 32767) * scaleV + this.minV;
+            } else {
+                result[i * 2] = reader.readFloat();
+                result[i * 2 + 1] = reader.readFloat();
+            }
+        }
+
+        return result;
+    }
+}
@@ -0,0 +1,108 @@
+import { BinaryReader } from '@bis-toolkit/utils';
+import { Vector3 } from '../mlod/Vector3';
+import { OdolReader } from './OdolReader';
+import { UVSet } from './UVSet';
+
+/**
+ * Bone weights of a single vertex (up to four bones)
+ */
+export interface AnimationRTWeight {
+    count: number;
+    weights: [number, number][];
+}
+
+/**
+ * Neighbour bone references used to blend vertices along skeleton seams
+ */
+export interface VertexNeighborInfo {
+    posA: number;
+    rtwA: AnimationRTWeight;
+    posB: number;
+    rtwB: AnimationRTWeight;
+}
+
+/**
+ * Tangent space pair of a vertex
+ */
+export interface STPair {
+    s: Vector3;
+    t: Vector3;
+}
+
+/**
+ * Decode a normal packed as three signed 10-bit components
+ */
+export function decompressVector(value: number): Vector3 {
+    const scale = -1 / 511;
+    let x = value & 0x3ff;
+    let y = (value >> 10) & 0x3ff;
+    let z = (value >> 20) & 0x3ff;
+    if (x > 511) x -= 1024;
+    if (y > 511) y -= 1024;
+    if (z > 511) z -= 1024;
+    return new Vector3(x * scale, y * scale, z * scale);
+}
+
+function readAnimationRTWeight(reader: BinaryReader): AnimationRTWeight {
+    const count = reader.readInt32();
+    const weights = new Array<[number, number]>(4);
+    for (let i = 0; i < 4; i++) {
+        weights[i] = [reader.readByte(), reader.readByte()];
+    }
+    return { count, weights: weights.slice(0, count) };
+}
+
+function readVertexNeighborInfo(reader: BinaryReader): VertexNeighborInfo {
+    const posA = reader.readUInt16();
+    reader.seek(2, 'current');
+    const rtwA = readAnimationRTWeight(reader);
+    const posB = reader.readUInt16();
+    reader.seek(2, 'current');
+    const rtwB = readAnimationRTWeight(reader);
+    return { posA, rtwA, posB, rtwB };
+}
+
+/**
+ * Vertex buffers of a binarized LOD
+ */
+export class VertexData {
+    public clipFlags: number[] = [];
+    public uvSets: UVSet[] = [];
+    public vertices: Vector3[] = [];
+    public normals: Vector3[] = [];
+    public stCoords: STPair[] = [];
+    public vertexBoneRef: AnimationRTWeight[] = [];
+    public neighborBoneRef: VertexNeighborInfo[] = [];
+
+    static fromReader(reader: OdolReader): VertexData {
+        const data = new VertexData();
+
+        if (reader.version >= 50) {
+            data.clipFlags = reader.readCondensedIntArray();
+        }
+
+        const defaultUVSet = UVSet.fromReader(reader);
+        const uvSetCount = reader.readUInt32();
+        data.uvSets = [defaultUVSet];
+        for (let i = 1; i < uvSetCount; i++) {
+            data.uvSets.push(UVSet.fromReader(reader));
+        }
+
+        data.vertices = reader.readCompressedArray(r => Vector3.fromReader(r), 12);
+
+        if (reader.version >= 45) {
+            data.normals = reader.readCondensedArray(r => decompressVector(r.readInt32()), 4);
+            data.stCoords = reader.readCompressedArray(
+                r => ({ s: decompressVector(r.readInt32()), t: decompressVector(r.readInt32()) }), 8);
+        } else {
+            data.normals = reader.readCondensedArray(r => Vector3.fromReader(r), 12);
+            data.stCoords = reader.readCompressedArray(
+                r => ({ s: Vector3.fromReader(r), t: Vector3.fromReader(r) }), 24);
+        }
+
+        data.vertexBoneRef = reader.readCompressedArray(readAnimationRTWeight, 12);
+        data.neighborBoneRef = reader.readCompressedArray(readVertexNeighborInfo, 32);
+
+        return data;
+    }
+}
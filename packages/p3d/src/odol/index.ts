@@ -0,0 +1,28 @@
+/**
+ * ODOL (binarized Bohemia Interactive model format) reader library
+ */
+
+export { Odol, type LoadableLodInfo } from './Odol';
+export { OdolLod } from './OdolLod';
+export { OdolReader } from './OdolReader';
+export { ModelInfo } from './ModelInfo';
+export { Skeleton, type Bone } from './Skeleton';
+export { Animations, AnimationClass, AnimationType, type AnimationBone } from './Animations';
+export { ProxyObject } from './ProxyObject';
+export { Matrix4 } from './Matrix4';
+export { Polygons } from './Polygons';
+export { Face } from './Face';
+export { Section } from './Section';
+export { NamedSelection } from './NamedSelection';
+export { Keyframe } from './Keyframe';
+export { EmbeddedMaterial, type Color, type StageTexture, type StageTransform } from './EmbeddedMaterial';
+export { UVSet } from './UVSet';
+export {
+    VertexData,
+    decompressVector,
+    type AnimationRTWeight,
+    type VertexNeighborInfo,
+    type STPair
+} from './VertexData';
+export { Vector3 } from '../mlod/Vector3';
+export { getLodName } from '../shared/Resolution';
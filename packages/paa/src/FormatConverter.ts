@@ -1,6 +1,7 @@
 import { PaaType } from './PaaType';
 import { Palette } from './Palette';
-import { decodeBC1, decodeBC2, decodeBC3 } from '@bis-toolkit/bcn';
+import { decodeBC1, decodeBC2, decodeBC3, encodeBC1, encodeBC2, encodeBC3 } from '@bis-toolkit/bcn';
+import { type RgbaImage } from '@bis-toolkit/utils';
 
 /**
  * Pixel format conversion utilities
@@ -87,30 +88,23 @@ export class PixelFormatConversion {
     static dxtToRgba32(data: Buffer | Uint8Array, width: number, height: number, format: string, useAlpha = true): Uint8Array {
         const dataView = new DataView(data.buffer, data.byteOffset, data.byteLength);
         
-        let rgba: Uint8Array;
+        let image: RgbaImage;
         switch (format) {
             case 'BC1':
-                rgba = decodeBC1(dataView, width, height, useAlpha);
+                image = decodeBC1(dataView, width, height, useAlpha);
                 break;
             case 'BC2':
-                rgba = decodeBC2(dataView, width, height);
+                image = decodeBC2(dataView, width, height);
                 break;
             case 'BC3':
-                rgba = decodeBC3(dataView, width, height);
+                image = decodeBC3(dataView, width, height);
                 break;
             default:
                 throw new Error(`Unsupported DXT format: ${format}`);
         }
         
         // BCn decoders return RGBA, but we need BGRA to match our other conversions
-        const bgra = new Uint8Array(rgba.length);
-        for (let i = 0; i < rgba.length; i += 4) {
-            bgra[i] = rgba[i + 2];     // B
-            bgra[i + 1] = rgba[i + 1]; // G
-            bgra[i + 2] = rgba[i];     // R
-            bgra[i + 3] = rgba[i + 3]; // A
-        }
-        return bgra;
+        return image.toBgra().data;
     }
 
     static convertToARGB32(data: Buffer | Uint8Array, width: number, height: number, type: PaaType): Uint8Array {
@@ -137,4 +131,88 @@ export class PixelFormatConversion {
                 throw new Error(`Unsupported PaaType: ${String(type)}`);
         }
     }
+
+    static rgba32ToArgb16(src: Uint8Array): Uint8Array {
+        const nPixel = Math.floor(src.length / 4);
+        const dst = new Uint8Array(nPixel * 2);
+
+        for (let index = 0; index < nPixel; index++) {
+            const r = Math.round(src[index * 4] * 15 / 255);
+            const g = Math.round(src[index * 4 + 1] * 15 / 255);
+            const b = Math.round(src[index * 4 + 2] * 15 / 255);
+            const a = Math.round(src[index * 4 + 3] * 15 / 255);
+
+            dst[index * 2] = (g << 4) | r;
+            dst[index * 2 + 1] = (a << 4) | b;
+        }
+
+        return dst;
+    }
+
+    static rgba32ToArgb1555(src: Uint8Array): Uint8Array {
+        const nPixel = Math.floor(src.length / 4);
+        const dst = new Uint8Array(nPixel * 2);
+        const view = new DataView(dst.buffer);
+
+        for (let index = 0; index < nPixel; index++) {
+            const r = Math.round(src[index * 4] * 31 / 255);
+            const g = Math.round(src[index * 4 + 1] * 31 / 255);
+            const b = Math.round(src[index * 4 + 2] * 31 / 255);
+            const a = src[index * 4 + 3] >= 128 ? 1 : 0;
+
+            view.setUint16(index * 2, (a << 15) | (r << 10) | (g << 5) | b, true);
+        }
+
+        return dst;
+    }
+
+    static rgba32ToAi88(src: Uint8Array): Uint8Array {
+        const nPixel = Math.floor(src.length / 4);
+        const dst = new Uint8Array(nPixel * 2);
+
+        for (let index = 0; index < nPixel; index++) {
+            const r = src[index * 4];
+            const g = src[index * 4 + 1];
+            const b = src[index * 4 + 2];
+
+            dst[index * 2] = Math.round(0.299 * r + 0.587 * g + 0.114 * b);
+            dst[index * 2 + 1] = src[index * 4 + 3];
+        }
+
+        return dst;
+    }
+
+    static rgba32ToArgb32(src: Uint8Array): Uint8Array {
+        const dst = new Uint8Array(src.length);
+        for (let i = 0; i < src.length; i += 4) {
+            this.setColor(dst, i, src[i + 3], src[i], src[i + 1], src[i + 2]);
+        }
+        return dst;
+    }
+
+    /**
+     * Encode RGBA pixel data into the raw pixel data of the given PAA type
+     */
+    static convertFromRGBA32(rgba: Uint8Array, width: number, height: number, type: PaaType): Uint8Array {
+        switch (type) {
+            case PaaType.DXT1:
+                return encodeBC1(rgba, width, height);
+            case PaaType.DXT2:
+            case PaaType.DXT3:
+                return encodeBC2(rgba, width, height);
+            case PaaType.DXT4:
+            case PaaType.DXT5:
+                return encodeBC3(rgba, width, height);
+            case PaaType.RGBA_5551:
+                return this.rgba32ToArgb1555(rgba);
+            case PaaType.RGBA_4444:
+                return this.rgba32ToArgb16(rgba);
+            case PaaType.AI88:
+                return this.rgba32ToAi88(rgba);
+            case PaaType.RGBA_8888:
+                return this.rgba32ToArgb32(rgba);
+            default:
+                throw new Error(`Encoding to PaaType ${String(type)} is not supported`);
+        }
+    }
 }
@@ -1,8 +1,13 @@
 import { PaaType } from './PaaType';
-import { BinaryReader } from '@bis-toolkit/utils';
+import { BinaryReader, BinaryWriter } from '@bis-toolkit/utils';
 import { PixelFormatConversion } from './FormatConverter';
-import { lzoDecompress } from '@bis-toolkit/utils';
-import { lzssDecompress } from '@bis-toolkit/utils';
+import { lzoCompress, lzoDecompress } from '@bis-toolkit/utils';
+import { lzssCompress, lzssDecompress } from '@bis-toolkit/utils';
+
+/**
+ * How a mipmap's pixel data is stored: DXT levels may be LZO compressed, 16-bit levels of 1 KiB or more are LZSS compressed
+ */
+export type PaaCompression = 'NONE' | 'LZO' | 'LZSS';
 
 /**
  * Represents a single mipmap level in a PAA texture
@@ -33,19 +38,17 @@ export class Mipmap {
             this.width = formatOrWidth;
             this.height = height;
             this.format = format;
-            if (this.width * this.height > 16384) { // 128x128
-                this.isLzo = true;
-            }
             this.dataOffset = -1;
-            if (this.isLzo) {
-                // TODO: Implement LZO compression
-                // this.rawData = lzoCompress(data);
-                this.rawData = data instanceof Uint8Array ? data : data;
-                this.dataSize = this.rawData?.length ?? 0;
+            if (this.isDxtFormat() && this.width * this.height > 16384) { // 128x128
+                this.isLzo = true;
+                this.rawData = lzoCompress(data);
+            } else if (this.isLzssFormat() && data.length > 1023) {
+                this.isLzss = true;
+                this.rawData = lzssCompress(data, false);
             } else {
-                this.rawData = data instanceof Uint8Array ? data : data;
-                this.dataSize = data?.length ?? 0;
+                this.rawData = data;
             }
+            this.dataSize = this.rawData.length;
         } else {
             // Constructor with just format
             this.format = formatOrWidth as PaaType;
@@ -74,6 +77,37 @@ export class Mipmap {
         br.seek(this.dataSize, 'current');
     }
 
+    /**
+     * Size of the mipmap header and data as written by `write()`
+     */
+    get storedSize(): number {
+        return 7 + this.dataSize;
+    }
+
+    get compression(): PaaCompression {
+        if (this.isLzo) {
+            return 'LZO';
+        }
+        if (this.isLzss || (this.isLzssFormat() && this.width * this.height * 2 > 1023)) {
+            return 'LZSS';
+        }
+        return 'NONE';
+    }
+
+    /**
+     * Write the mipmap header and its (compressed) pixel data
+     */
+    write(bw: BinaryWriter): void {
+        if (this.rawData === null) {
+            throw new Error('Mipmap has no pixel data to write');
+        }
+
+        bw.writeUInt16(this.isLzo ? this.width | 0x8000 : this.width);
+        bw.writeUInt16(this.height);
+        bw.writeInt24(this.dataSize);
+        bw.writeBytes(this.rawData);
+    }
+
     getRawPixelData(buffer: Buffer | Uint8Array): Uint8Array {
         if (this.dataOffset === -1) {
             throw new Error('Data offset is not set');
@@ -134,6 +168,15 @@ export class Mipmap {
             this.format === PaaType.DXT5;
     }
 
+    /**
+     * 16-bit formats are LZSS compressed once they reach 1024 bytes
+     */
+    isLzssFormat(): boolean {
+        return this.format === PaaType.RGBA_5551 ||
+            this.format === PaaType.RGBA_4444 ||
+            this.format === PaaType.AI88;
+    }
+
     getFormat(): PaaType {
         return this.format;
     }
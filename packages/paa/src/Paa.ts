@@ -1,9 +1,50 @@
 import { PaaType } from './PaaType';
 import { PaaColor } from './PaaColor';
 import { Palette } from './Palette';
-import { Mipmap } from './Mipmap';
+import { Mipmap, type PaaCompression } from './Mipmap';
 import { RgbaSwizzle, ChannelSwizzle, ChannelSwizzler } from './ChannelSwizzler';
-import { BinaryReader } from '@bis-toolkit/utils';
+import { PixelFormatConversion } from './FormatConverter';
+import { type AlphaMode, type MipChainOptions, BinaryReader, BinaryWriter, RgbaImage, generateMipChain } from '@bis-toolkit/utils';
+
+export interface PaaPixelOptions {
+    /** Convert premultiplied (DXT2/DXT4) pixels to straight alpha */
+    unpremultiply?: boolean;
+}
+
+export interface PaaEncodeOptions {
+    /** Alpha convention of the input pixels, defaults to straight. Pixels are converted to the convention of the type (premultiplied for DXT2/DXT4) */
+    alphaMode?: AlphaMode;
+    /** Filtering of the generated mipmaps, defaults to a gamma-correct box filter */
+    mipmaps?: MipChainOptions;
+}
+
+export interface PaaMipmapInfo {
+    width: number;
+    height: number;
+    compression: PaaCompression;
+    /** Size of the mipmap header and (compressed) pixel data in the file */
+    storedSize: number;
+}
+
+/**
+ * Texture metadata returned by `Paa.probe()`
+ */
+export interface PaaProbeInfo {
+    type: PaaType;
+    /** Size of the top mipmap, 0 when the file has none */
+    width: number;
+    height: number;
+    mipCount: number;
+    mipmaps: PaaMipmapInfo[];
+    /** Compression of the top mipmap */
+    compression: PaaCompression;
+    averageColor: PaaColor | null;
+    maxColor: PaaColor | null;
+    isAlpha: boolean;
+    isTransparent: boolean;
+    channelSwizzle: RgbaSwizzle;
+    procedure: string;
+}
 
 /**
  * Main PAA file reader/writer class
@@ -20,16 +61,211 @@ export class Paa {
     
     private procedure = '';
 
+    /** OFFS tag holds a fixed table of 16 mipmap offsets */
+    private static readonly MAX_MIPMAPS = 16;
+
+    /**
+     * Create a PAA texture from RGBA pixel data, generating the full mipmap chain
+     */
+    static fromRgba(width: number, height: number, pixels: Uint8Array, type: PaaType = PaaType.DXT5, options: PaaEncodeOptions = {}): Paa {
+        if (pixels.length !== width * height * 4) {
+            throw new Error(`Expected ${width * height * 4} bytes of RGBA data, got ${pixels.length}`);
+        }
+        if (!Paa.isPowerOfTwo(width) || !Paa.isPowerOfTwo(height)) {
+            throw new Error(`Texture dimensions must be powers of two, got ${width}x${height}`);
+        }
+
+        const paa = new Paa();
+        paa.type = type;
+
+        const image = new RgbaImage(width, height, pixels, 'RGBA', 'srgb', options.alphaMode ?? 'straight');
+        paa.computeTags(image.toAlphaMode('straight').data);
+
+        // DXT mipmaps stop at a single 4x4 block
+        const isDxt = type === PaaType.DXT1 || type === PaaType.DXT2 || type === PaaType.DXT3 ||
+            type === PaaType.DXT4 || type === PaaType.DXT5;
+        const minSize = isDxt ? 4 : 1;
+        if (isDxt && (width < 4 || height < 4)) {
+            throw new Error(`DXT textures must be at least 4x4, got ${width}x${height}`);
+        }
+
+        const levels = generateMipChain(image, {
+            ...options.mipmaps,
+            minSize: Math.max(minSize, options.mipmaps?.minSize ?? 1),
+            maxLevels: Math.min(Paa.MAX_MIPMAPS, options.mipmaps?.maxLevels ?? Paa.MAX_MIPMAPS),
+        });
+        for (const level of levels) {
+            // Stored the way the type expects, whichever alpha convention the input used
+            const source = level.toAlphaMode(paa.alphaMode);
+            const data = PixelFormatConversion.convertFromRGBA32(source.data, level.width, level.height, type);
+            paa.mipmaps.push(new Mipmap(level.width, level.height, data, type));
+        }
+
+        return paa;
+    }
+
     /**
      * Read a PAA file from a buffer
      */
     read(buffer: Buffer | Uint8Array): void {
         const br = new BinaryReader(buffer);
         this.type = br.readUInt16() as PaaType;
+        const mipMapOffsets = this.readTags(br);
+
+        this.palette.read(br);
+
+        // Read mipmaps
+        this.mipmaps = [];
+        if (mipMapOffsets !== null) {
+            for (const mipMapOffset of mipMapOffsets) {
+                if (mipMapOffset === 0) {break;}
+                br.seek(mipMapOffset, 'begin');
+                const mipmap = new Mipmap(this.type);
+                mipmap.read(br);
+                this.mipmaps.push(mipmap);
+            }
+        }
+
+        // Check terminator
+        const terminator = br.readUInt16();
+        if (terminator !== 0) {
+            throw new Error('Invalid format: terminator bytes not found');
+        }
+    }
+
+    /**
+     * Read the type, tags and mipmap headers without touching any pixel data.
+     * Meant for indexing many textures; use `read()` to decode them.
+     */
+    static probe(buffer: Buffer | Uint8Array): PaaProbeInfo {
+        const br = new BinaryReader(buffer);
+        const paa = new Paa();
+        paa.type = br.readUInt16() as PaaType;
+        if (!Object.values(PaaType).includes(paa.type)) {
+            throw new Error(`Unknown PAA type 0x${paa.type.toString(16)}`);
+        }
+        const mipMapOffsets = paa.readTags(br);
+
+        const mipmaps: PaaMipmapInfo[] = [];
+        for (const mipMapOffset of mipMapOffsets ?? []) {
+            if (mipMapOffset === 0) {break;}
+            if (mipMapOffset + 7 > br.length) {
+                throw new Error(`Mipmap offset ${mipMapOffset} is past the end of the file`);
+            }
+            br.seek(mipMapOffset, 'begin');
+            const mipmap = new Mipmap(paa.type);
+            mipmap.read(br);
+            mipmaps.push({
+                width: mipmap.width,
+                height: mipmap.height,
+                compression: mipmap.compression,
+                storedSize: mipmap.storedSize
+            });
+        }
+
+        return {
+            type: paa.type,
+            width: mipmaps.length > 0 ? mipmaps[0].width : 0,
+            height: mipmaps.length > 0 ? mipmaps[0].height : 0,
+            mipCount: mipmaps.length,
+            mipmaps,
+            compression: mipmaps.length > 0 ? mipmaps[0].compression : 'NONE',
+            averageColor: paa.averageColor,
+            maxColor: paa.maxColor,
+            isAlpha: paa.isAlpha,
+            isTransparent: paa.isTransparent,
+            channelSwizzle: paa.channelSwizzle,
+            procedure: paa.procedure
+        };
+    }
+
+    /**
+     * Alpha convention of the stored pixels: DXT2/DXT4 store color premultiplied by alpha
+     */
+    get alphaMode(): AlphaMode {
+        return this.type === PaaType.DXT2 || this.type === PaaType.DXT4 ? 'premultiplied' : 'straight';
+    }
 
+    /**
+     * Get ARGB32 pixel data (BGRA in memory) for a specific mipmap level.
+     * The image's `alphaMode` tells whether the color is premultiplied.
+     */
+    getArgb32PixelData(buffer: Buffer | Uint8Array, mipLevel = 0, options: PaaPixelOptions = {}): RgbaImage {
+        if (mipLevel < 0 || mipLevel >= this.mipmaps.length) {
+            throw new RangeError(`mipLevel ${mipLevel} out of range`);
+        }
+        const mipmap = this.mipmaps[mipLevel];
+        let image = new RgbaImage(mipmap.width, mipmap.height, mipmap.getRgba32PixelData(buffer), 'BGRA', 'srgb', this.alphaMode);
+        if (options.unpremultiply) {
+            image = image.unpremultiply();
+        }
+        ChannelSwizzler.apply(image.data, this.channelSwizzle);
+        return image;
+    }
+
+    /**
+     * Write the PAA file, including its tags and all mipmaps created by `fromRgba()`
+     */
+    write(): Uint8Array {
+        const bw = new BinaryWriter();
+        bw.writeUInt16(this.type);
+
+        if (this.averageColor !== null) {
+            Paa.writeTag(bw, 'AVGC', 4);
+            bw.writeUInt32(this.averageColor.color);
+        }
+        if (this.maxColor !== null) {
+            Paa.writeTag(bw, 'MAXC', 4);
+            bw.writeUInt32(this.maxColor.color);
+        }
+        if (this.isAlpha || this.isTransparent) {
+            Paa.writeTag(bw, 'FLAG', 4);
+            bw.writeInt32((this.isAlpha ? 0x1 : 0) | (this.isTransparent ? 0x2 : 0));
+        }
+        if (!this.channelSwizzle.equals(RgbaSwizzle.Default)) {
+            Paa.writeTag(bw, 'SWIZ', 4);
+            bw.writeByte(this.channelSwizzle.swizAlpha);
+            bw.writeByte(this.channelSwizzle.swizRed);
+            bw.writeByte(this.channelSwizzle.swizGreen);
+            bw.writeByte(this.channelSwizzle.swizBlue);
+        }
+        if (this.procedure !== '') {
+            Paa.writeTag(bw, 'PROC', this.procedure.length);
+            bw.writeRawString(this.procedure);
+        }
+
+        // Mipmaps follow the OFFS tag and the palette
+        Paa.writeTag(bw, 'OFFS', Paa.MAX_MIPMAPS * 4);
+        let offset = bw.pos + Paa.MAX_MIPMAPS * 4 + 2 + this.palette.colors.length * 3;
+        for (let i = 0; i < Paa.MAX_MIPMAPS; i++) {
+            if (i < this.mipmaps.length) {
+                bw.writeUInt32(offset);
+                offset += this.mipmaps[i].storedSize;
+            } else {
+                bw.writeUInt32(0);
+            }
+        }
+
+        this.palette.write(bw);
+
+        for (const mipmap of this.mipmaps) {
+            mipmap.write(bw);
+        }
+
+        // Terminator: an empty mipmap header
+        bw.writeUInt16(0);
+        bw.writeUInt16(0);
+        bw.writeUInt16(0);
+
+        return bw.getBuffer();
+    }
+
+    /**
+     * Read the GGAT tags following the type. Stops at the palette and returns the OFFS table, if present.
+     */
+    private readTags(br: BinaryReader): number[] | null {
         let mipMapOffsets: number[] | null = null;
 
-        // Read tags
         while (br.readRawString(4) === 'GGAT') {
             const name = br.readRawString(4).split('').reverse().join('');
             const len = br.readInt32();
@@ -70,36 +306,51 @@ export class Paa {
 
         // Seek back 4 bytes (we read past the palette marker)
         br.seek(-4, 'current');
-        this.palette.read(br);
-
-        // Read mipmaps
-        this.mipmaps = [];
-        if (mipMapOffsets !== null) {
-            for (const mipMapOffset of mipMapOffsets) {
-                if (mipMapOffset === 0) {break;}
-                br.seek(mipMapOffset, 'begin');
-                const mipmap = new Mipmap(this.type);
-                mipmap.read(br);
-                this.mipmaps.push(mipmap);
-            }
-        }
+        return mipMapOffsets;
+    }
 
-        // Check terminator
-        const terminator = br.readUInt16();
-        if (terminator !== 0) {
-            throw new Error('Invalid format: terminator bytes not found');
-        }
+    private static writeTag(bw: BinaryWriter, name: string, length: number): void {
+        bw.writeRawString('GGAT');
+        bw.writeRawString(name.split('').reverse().join(''));
+        bw.writeInt32(length);
     }
 
     /**
-     * Get ARGB32 pixel data for a specific mipmap level
+     * Compute the AVGC/MAXC colors and the alpha flags from the top level pixels
      */
-    getArgb32PixelData(buffer: Buffer | Uint8Array, mipLevel = 0): Uint8Array {
-        if (mipLevel < 0 || mipLevel >= this.mipmaps.length) {
-            throw new RangeError(`mipLevel ${mipLevel} out of range`);
+    private computeTags(pixels: Uint8Array): void {
+        const nPixel = pixels.length / 4;
+        const sum = [0, 0, 0, 0];
+        const max = [0, 0, 0, 0];
+        let hasAlpha = false;
+        let hasInterpolatedAlpha = false;
+
+        for (let i = 0; i < pixels.length; i += 4) {
+            for (let c = 0; c < 4; c++) {
+                sum[c] += pixels[i + c];
+                max[c] = Math.max(max[c], pixels[i + c]);
+            }
+            const alpha = pixels[i + 3];
+            if (alpha !== 255) {
+                hasAlpha = true;
+                if (alpha !== 0) {
+                    hasInterpolatedAlpha = true;
+                }
+            }
         }
-        const data = this.mipmaps[mipLevel].getRgba32PixelData(buffer);
-        ChannelSwizzler.apply(data, this.channelSwizzle);
-        return data;
+
+        this.averageColor = new PaaColor(
+            Math.round(sum[0] / nPixel),
+            Math.round(sum[1] / nPixel),
+            Math.round(sum[2] / nPixel),
+            Math.round(sum[3] / nPixel)
+        );
+        this.maxColor = new PaaColor(max[0], max[1], max[2], max[3]);
+        this.isAlpha = hasInterpolatedAlpha;
+        this.isTransparent = hasAlpha && !hasInterpolatedAlpha;
+    }
+
+    private static isPowerOfTwo(value: number): boolean {
+        return value > 0 && (value & (value - 1)) === 0;
     }
 }
@@ -1,5 +1,5 @@
 import { PaaColor } from './PaaColor';
-import { BinaryReader } from '@bis-toolkit/utils';
+import { BinaryReader, BinaryWriter } from '@bis-toolkit/utils';
 
 /**
  * Represents a color palette for indexed PAA formats
@@ -17,4 +17,13 @@ export class Palette {
             this.colors.push(new PaaColor(r, g, b));
         }
     }
+
+    write(bw: BinaryWriter): void {
+        bw.writeUInt16(this.colors.length);
+        for (const color of this.colors) {
+            bw.writeByte(color.blue);
+            bw.writeByte(color.green);
+            bw.writeByte(color.red);
+        }
+    }
 }
@@ -2,11 +2,11 @@
  * PAA (Bohemia Interactive texture format) library
  */
 
-export { Paa } from './Paa';
+export { Paa, type PaaEncodeOptions, type PaaMipmapInfo, type PaaPixelOptions, type PaaProbeInfo } from './Paa';
 export { PaaType } from './PaaType';
 export { PaaColor } from './PaaColor';
 export { Palette } from './Palette';
-export { Mipmap } from './Mipmap';
+export { Mipmap, type PaaCompression } from './Mipmap';
 export { 
     ChannelSwizzle, 
     RgbaSwizzle, 
@@ -14,4 +14,17 @@ export {
 } from './ChannelSwizzler';
 export { PixelFormatConversion } from './FormatConverter';
 // Utility exports (re-exported from @bis-toolkit/utils for convenience)
-export { BinaryReader, lzoDecompress, lzssDecompress, calculateChecksum } from '@bis-toolkit/utils';
+export {
+    BinaryReader,
+    RgbaImage,
+    lzoCompress,
+    lzoDecompress,
+    lzssCompress,
+    lzssDecompress,
+    calculateChecksum,
+    type AlphaMode,
+    type ChannelLayout,
+    type ColorSpace,
+    type MipChainOptions,
+    type ResampleFilter
+} from '@bis-toolkit/utils';
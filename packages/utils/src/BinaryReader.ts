@@ -47,6 +47,12 @@ export class BinaryReader {
         return value;
     }
 
+    readInt16(): number {
+        const value = this.view.getInt16(this.position, true);
+        this.position += 2;
+        return value;
+    }
+
     readUInt32(): number {
         const value = this.view.getUint32(this.position, true);
         this.position += 4;
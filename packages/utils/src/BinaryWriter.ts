@@ -46,6 +46,14 @@ export class BinaryWriter {
         this.position += 2;
     }
 
+    writeInt24(value: number): void {
+        this.ensureCapacity(3);
+        this.view.setUint8(this.position, value & 0xff);
+        this.view.setUint8(this.position + 1, (value >> 8) & 0xff);
+        this.view.setUint8(this.position + 2, (value >> 16) & 0xff);
+        this.position += 3;
+    }
+
     writeUInt32(value: number): void {
         this.ensureCapacity(4);
         this.view.setUint32(this.position, value, true);
@@ -58,6 +66,16 @@ export class BinaryWriter {
         this.position += 4;
     }
 
+    /**
+     * Overwrite an already written 32-bit value, for offsets only known once later data is written
+     */
+    writeUInt32At(offset: number, value: number): void {
+        if (offset < 0 || offset + 4 > this.position) {
+            throw new RangeError(`offset ${offset} is outside the written data`);
+        }
+        this.view.setUint32(offset, value, true);
+    }
+
     writeFloat(value: number): void {
         this.ensureCapacity(4);
         this.view.setFloat32(this.position, value, true);
@@ -76,6 +94,15 @@ export class BinaryWriter {
         this.writeRawString(str);
     }
 
+    /**
+     * Write a null-terminated C-style string (UTF-8 encoded)
+     */
+    writeCString(str: string): void {
+        const bytes = new TextEncoder().encode(str);
+        this.writeBytes(bytes);
+        this.writeUInt8(0);
+    }
+
     writeBytes(bytes: Uint8Array): void {
         this.ensureCapacity(bytes.length);
         this.buffer.set(bytes, this.position);
@@ -0,0 +1,804 @@
+/**
+ * DEFLATE (RFC 1951) and zlib (RFC 1950) compression and decompression
+ */
+
+const MAX_BITS = 15;
+const WINDOW_SIZE = 32768;
+const MIN_MATCH = 3;
+const MAX_MATCH = 258;
+const END_OF_BLOCK = 256;
+
+const LENGTH_BASE = [
+    3, 4, 5, 6, 7, 8, 9, 10, 11, 13, 15, 17, 19, 23, 27, 31,
+    35, 43, 51, 59, 67, 83, 99, 115, 131, 163, 195, 227, 258,
+];
+const LENGTH_EXTRA = [
+    0, 0, 0, 0, 0, 0, 0, 0, 1, 1, 1, 1, 2, 2, 2, 2,
+    3, 3, 3, 3, 4, 4, 4, 4, 5, 5, 5, 5, 0,
+];
+const DIST_BASE = [
+    1, 2, 3, 4, 5, 7, 9, 13, 17, 25, 33, 49, 65, 97, 129, 193,
+    257, 385, 513, 769, 1025, 1537, 2049, 3073, 4097, 6145, 8193, 12289, 16385, 24577,
+];
+const DIST_EXTRA = [
+    0, 0, 0, 0, 1, 1, 2, 2, 3, 3, 4, 4, 5, 5, 6, 6,
+    7, 7, 8, 8, 9, 9, 10, 10, 11, 11, 12, 12, 13, 13,
+];
+// Order in which code length code lengths are stored in a dynamic block header
+const CODE_LENGTH_ORDER = [16, 17, 18, 0, 8, 7, 9, 6, 10, 5, 11, 4, 12, 3, 13, 2, 14, 1, 15];
+
+function fixedLiteralLengths(): Uint8Array {
+    const lengths = new Uint8Array(288);
+    lengths.fill(8, 0, 144);
+    lengths.fill(9, 144, 256);
+    lengths.fill(7, 256, 280);
+    lengths.fill(8, 280, 288);
+    return lengths;
+}
+
+function reverseBits(code: number, length: number): number {
+    let result = 0;
+    for (let i = 0; i < length; i++) {
+        result = (result << 1) | (code & 1);
+        code >>>= 1;
+    }
+    return result;
+}
+
+/**
+ * Canonical Huffman codes for the given code lengths, bit-reversed for LSB-first output
+ */
+function buildCodes(lengths: Uint8Array): Uint16Array {
+    const count = new Uint16Array(MAX_BITS + 1);
+    for (const length of lengths) {
+        count[length]++;
+    }
+    count[0] = 0;
+
+    const next = new Uint16Array(MAX_BITS + 1);
+    let code = 0;
+    for (let bits = 1; bits <= MAX_BITS; bits++) {
+        code = (code + count[bits - 1]) << 1;
+        next[bits] = code;
+    }
+
+    const codes = new Uint16Array(lengths.length);
+    for (let symbol = 0; symbol < lengths.length; symbol++) {
+        const length = lengths[symbol];
+        if (length !== 0) {
+            codes[symbol] = reverseBits(next[length]++, length);
+        }
+    }
+    return codes;
+}
+
+/** Lookup table indexed by the next `bits` input bits; entries are (symbol << 4) | code length */
+interface DecodeTable {
+    table: Uint32Array;
+    bits: number;
+}
+
+function buildDecodeTable(lengths: Uint8Array): DecodeTable {
+    let bits = 1;
+    for (const length of lengths) {
+        bits = Math.max(bits, length);
+    }
+
+    const codes = buildCodes(lengths);
+    const table = new Uint32Array(1 << bits);
+    for (let symbol = 0; symbol < lengths.length; symbol++) {
+        const length = lengths[symbol];
+        if (length === 0) {
+            continue;
+        }
+        const entry = (symbol << 4) | length;
+        for (let index = codes[symbol]; index < table.length; index += 1 << length) {
+            table[index] = entry;
+        }
+    }
+    return { table, bits };
+}
+
+class InflateState {
+    private input: Uint8Array;
+    private pos = 0;
+    private bitBuffer = 0;
+    private bitCount = 0;
+
+    private output: Uint8Array;
+    private outPos = 0;
+
+    constructor(input: Uint8Array, expectedSize: number) {
+        this.input = input;
+        this.output = new Uint8Array(Math.max(expectedSize, 1024));
+    }
+
+    get inputPosition(): number {
+        // Bytes still sitting in the bit buffer have not been consumed
+        return this.pos - (this.bitCount >> 3);
+    }
+
+    private need(count: number): void {
+        while (this.bitCount < count) {
+            // Past the end of input, feed zeros; truncation is detected by the caller's bounds checks
+            const byte = this.pos < this.input.length ? this.input[this.pos] : 0;
+            if (this.pos >= this.input.length + 4) {
+                throw new Error('Unexpected end of deflate stream');
+            }
+            this.pos++;
+            this.bitBuffer |= byte << this.bitCount;
+            this.bitCount += 8;
+        }
+    }
+
+    readBits(count: number): number {
+        if (count === 0) {
+            return 0;
+        }
+        this.need(count);
+        const value = this.bitBuffer & ((1 << count) - 1);
+        this.bitBuffer >>>= count;
+        this.bitCount -= count;
+        return value;
+    }
+
+    decodeSymbol(decoder: DecodeTable): number {
+        this.need(decoder.bits);
+        const entry = decoder.table[this.bitBuffer & ((1 << decoder.bits) - 1)];
+        const length = entry & 15;
+        if (length === 0) {
+            throw new Error('Invalid Huffman code in deflate stream');
+        }
+        this.bitBuffer >>>= length;
+        this.bitCount -= length;
+        return entry >>> 4;
+    }
+
+    private ensureOutput(count: number): void {
+        if (this.outPos + count > this.output.length) {
+            const grown = new Uint8Array(Math.max(this.output.length * 2, this.outPos + count));
+            grown.set(this.output.subarray(0, this.outPos));
+            this.output = grown;
+        }
+    }
+
+    storedBlock(): void {
+        // Drop the rest of the current byte, then LEN/NLEN
+        this.bitBuffer >>>= this.bitCount & 7;
+        this.bitCount -= this.bitCount & 7;
+        const length = this.readBits(16);
+        const inverse = this.readBits(16);
+        if ((length ^ 0xffff) !== inverse) {
+            throw new Error('Stored block length check failed');
+        }
+
+        // Whole bytes left in the bit buffer belong to the stored data
+        const start = this.inputPosition;
+        if (start + length > this.input.length) {
+            throw new Error('Unexpected end of deflate stream');
+        }
+        this.ensureOutput(length);
+        this.output.set(this.input.subarray(start, start + length), this.outPos);
+        this.outPos += length;
+        this.pos = start + length;
+        this.bitBuffer = 0;
+        this.bitCount = 0;
+    }
+
+    huffmanBlock(literals: DecodeTable, distances: DecodeTable): void {
+        for (;;) {
+            const symbol = this.decodeSymbol(literals);
+            if (symbol < 256) {
+                this.ensureOutput(1);
+                this.output[this.outPos++] = symbol;
+                continue;
+            }
+            if (symbol === END_OF_BLOCK) {
+                return;
+            }
+
+            const lengthCode = symbol - 257;
+            if (lengthCode >= LENGTH_BASE.length) {
+                throw new Error(`Invalid length symbol ${symbol}`);
+            }
+            const length = LENGTH_BASE[lengthCode] + this.readBits(LENGTH_EXTRA[lengthCode]);
+            const distCode = this.decodeSymbol(distances);
+            if (distCode >= DIST_BASE.length) {
+                throw new Error(`Invalid distance symbol ${distCode}`);
+            }
+            const distance = DIST_BASE[distCode] + this.readBits(DIST_EXTRA[distCode]);
+            if (distance > this.outPos) {
+                throw new Error(`Distance ${distance} reaches before the start of the output`);
+            }
+
+            this.ensureOutput(length);
+            const out = this.output;
+            let from = this.outPos - distance;
+            for (let i = 0; i < length; i++) {
+                out[this.outPos++] = out[from++];
+            }
+        }
+    }
+
+    dynamicTables(): [DecodeTable, DecodeTable] {
+        const literalCount = this.readBits(5) + 257;
+        const distanceCount = this.readBits(5) + 1;
+        const codeLengthCount = this.readBits(4) + 4;
+
+        const codeLengthLengths = new Uint8Array(19);
+        for (let i = 0; i < codeLengthCount; i++) {
+            codeLengthLengths[CODE_LENGTH_ORDER[i]] = this.readBits(3);
+        }
+        const codeLengthDecoder = buildDecodeTable(codeLengthLengths);
+
+        const lengths = new Uint8Array(literalCount + distanceCount);
+        for (let i = 0; i < lengths.length;) {
+            const symbol = this.decodeSymbol(codeLengthDecoder);
+            if (symbol < 16) {
+                lengths[i++] = symbol;
+                continue;
+            }
+
+            let repeat: number;
+            let value = 0;
+            if (symbol === 16) {
+                if (i === 0) {
+                    throw new Error('Repeat code with no previous length');
+                }
+                value = lengths[i - 1];
+                repeat = 3 + this.readBits(2);
+            } else if (symbol === 17) {
+                repeat = 3 + this.readBits(3);
+            } else {
+                repeat = 11 + this.readBits(7);
+            }
+            if (i + repeat > lengths.length) {
+                throw new Error('Code lengths overflow the alphabet');
+            }
+            lengths.fill(value, i, i + repeat);
+            i += repeat;
+        }
+
+        if (lengths[END_OF_BLOCK] === 0) {
+            throw new Error('Missing end-of-block code');
+        }
+        return [
+            buildDecodeTable(lengths.subarray(0, literalCount)),
+            buildDecodeTable(lengths.subarray(literalCount)),
+        ];
+    }
+
+    result(): Uint8Array {
+        return this.output.slice(0, this.outPos);
+    }
+}
+
+let fixedLiteralDecoder: DecodeTable | null = null;
+let fixedDistanceDecoder: DecodeTable | null = null;
+
+function inflateStream(input: Uint8Array, expectedSize: number): { data: Uint8Array; consumed: number } {
+    const state = new InflateState(input, expectedSize);
+
+    let last = false;
+    while (!last) {
+        last = state.readBits(1) === 1;
+        const type = state.readBits(2);
+        switch (type) {
+            case 0:
+                state.storedBlock();
+                break;
+            case 1:
+                fixedLiteralDecoder ??= buildDecodeTable(fixedLiteralLengths());
+                fixedDistanceDecoder ??= buildDecodeTable(new Uint8Array(30).fill(5));
+                state.huffmanBlock(fixedLiteralDecoder, fixedDistanceDecoder);
+                break;
+            case 2: {
+                const [literals, distances] = state.dynamicTables();
+                state.huffmanBlock(literals, distances);
+                break;
+            }
+            default:
+                throw new Error('Invalid deflate block type 3');
+        }
+    }
+
+    if (state.inputPosition > input.length) {
+        throw new Error('Unexpected end of deflate stream');
+    }
+    return { data: state.result(), consumed: state.inputPosition };
+}
+
+/**
+ * Decompress raw DEFLATE data
+ *
+ * @param data - Compressed data
+ * @param expectedSize - Optional size hint for the output buffer
+ */
+export function inflate(data: Uint8Array, expectedSize = 0): Uint8Array {
+    return inflateStream(data, expectedSize || data.length * 4).data;
+}
+
+class BitWriter {
+    private buffer = new Uint8Array(1024);
+    private pos = 0;
+    private bitBuffer = 0;
+    private bitCount = 0;
+
+    private ensure(count: number): void {
+        if (this.pos + count > this.buffer.length) {
+            const grown = new Uint8Array(Math.max(this.buffer.length * 2, this.pos + count));
+            grown.set(this.buffer.subarray(0, this.pos));
+            this.buffer = grown;
+        }
+    }
+
+    writeBits(value: number, count: number): void {
+        this.bitBuffer |= value << this.bitCount;
+        this.bitCount += count;
+        this.ensure(4);
+        while (this.bitCount >= 8) {
+            this.buffer[this.pos++] = this.bitBuffer & 0xff;
+            this.bitBuffer >>>= 8;
+            this.bitCount -= 8;
+        }
+    }
+
+    alignToByte(): void {
+        if (this.bitCount > 0) {
+            this.writeBits(0, 8 - this.bitCount);
+        }
+    }
+
+    writeBytes(data: Uint8Array): void {
+        this.ensure(data.length);
+        this.buffer.set(data, this.pos);
+        this.pos += data.length;
+    }
+
+    result(): Uint8Array {
+        this.alignToByte();
+        return this.buffer.slice(0, this.pos);
+    }
+}
+
+/**
+ * Huffman code lengths for the given symbol frequencies, limited to `maxLength` bits
+ */
+function buildLengths(freqs: Uint32Array, maxLength: number): Uint8Array {
+    const lengths = new Uint8Array(freqs.length);
+    const symbols: number[] = [];
+    for (let i = 0; i < freqs.length; i++) {
+        if (freqs[i] > 0) {
+            symbols.push(i);
+        }
+    }
+    if (symbols.length === 0) {
+        return lengths;
+    }
+    if (symbols.length === 1) {
+        lengths[symbols[0]] = 1;
+        return lengths;
+    }
+
+    // Build the tree by repeatedly merging the two lightest nodes
+    const weight: number[] = symbols.map(s => freqs[s]);
+    const parent: number[] = new Array<number>(symbols.length).fill(-1);
+    const queue = symbols.map((_, i) => i);
+    queue.sort((a, b) => weight[a] - weight[b]);
+    const merged: number[] = [];
+    let qi = 0;
+    let mi = 0;
+    const takeLightest = (): number => {
+        if (mi >= merged.length || (qi < queue.length && weight[queue[qi]] <= weight[merged[mi]])) {
+            return queue[qi++];
+        }
+        return merged[mi++];
+    };
+    while (queue.length - qi + merged.length - mi > 1) {
+        const a = takeLightest();
+        const b = takeLightest();
+        const node = weight.length;
+        weight.push(weight[a] + weight[b]);
+        parent.push(-1);
+        parent[a] = node;
+        parent[b] = node;
+        merged.push(node);
+    }
+
+    const depth = new Array<number>(weight.length).fill(0);
+    for (let node = weight.length - 2; node >= 0; node--) {
+        depth[node] = depth[parent[node]] + 1;
+    }
+
+    // Count codes per length, then push overlong codes up (JPEG Annex K.3 style) to respect the limit
+    const maxDepth = Math.max(...symbols.map((_, i) => depth[i]));
+    const count = new Array<number>(Math.max(maxDepth, maxLength) + 1).fill(0);
+    for (let i = 0; i < symbols.length; i++) {
+        count[depth[i]]++;
+    }
+    for (let bits = maxDepth; bits > maxLength; bits--) {
+        while (count[bits] > 0) {
+            let j = bits - 2;
+            while (count[j] === 0) {
+                j--;
+            }
+            count[bits] -= 2;
+            count[bits - 1] += 1;
+            count[j + 1] += 2;
+            count[j] -= 1;
+        }
+    }
+
+    // Shortest codes go to the most frequent symbols
+    const byFrequency = symbols.slice().sort((a, b) => freqs[b] - freqs[a] || a - b);
+    let bits = 1;
+    for (const symbol of byFrequency) {
+        while (count[bits] === 0) {
+            bits++;
+        }
+        lengths[symbol] = bits;
+        count[bits]--;
+    }
+    return lengths;
+}
+
+// Symbol lookups for the compressor, indexed by match length and distance
+const LENGTH_CODE_TABLE = new Uint8Array(MAX_MATCH + 1);
+const DIST_CODE_TABLE = new Uint8Array(WINDOW_SIZE + 1);
+for (let code = 0; code < LENGTH_BASE.length; code++) {
+    LENGTH_CODE_TABLE.fill(code, LENGTH_BASE[code], LENGTH_BASE[code] + (1 << LENGTH_EXTRA[code]));
+}
+for (let code = 0; code < DIST_BASE.length; code++) {
+    DIST_CODE_TABLE.fill(code, DIST_BASE[code], DIST_BASE[code] + (1 << DIST_EXTRA[code]));
+}
+
+/** Match search effort per compression level: [max chain length, good enough match length] */
+const LEVEL_SEARCH: [number, number][] = [
+    [0, 0], [4, 8], [8, 16], [16, 32], [32, 32], [64, 64], [128, 128], [256, 128], [1024, 258], [4096, 258],
+];
+
+/** Maximum number of LZ77 tokens per Huffman block */
+const BLOCK_TOKENS = 1 << 16;
+
+/**
+ * Code lengths run-length encoded with the code length alphabet: [symbol, extra bits value] pairs
+ */
+function encodeCodeLengths(lengths: Uint8Array): number[] {
+    const runs: number[] = [];
+    for (let i = 0; i < lengths.length;) {
+        const value = lengths[i];
+        let run = 1;
+        while (i + run < lengths.length && lengths[i + run] === value) {
+            run++;
+        }
+        i += run;
+
+        if (value === 0) {
+            while (run >= 11) {
+                const n = Math.min(run, 138);
+                runs.push(18, n - 11);
+                run -= n;
+            }
+            if (run >= 3) {
+                runs.push(17, run - 3);
+                run = 0;
+            }
+        } else {
+            runs.push(value, 0);
+            run--;
+            while (run >= 3) {
+                const n = Math.min(run, 6);
+                runs.push(16, n - 3);
+                run -= n;
+            }
+        }
+        for (; run > 0; run--) {
+            runs.push(value, 0);
+        }
+    }
+    return runs;
+}
+
+function writeStoredBlocks(writer: BitWriter, data: Uint8Array, start: number, end: number, last: boolean): void {
+    do {
+        const length = Math.min(0xffff, end - start);
+        const final = last && start + length === end;
+        writer.writeBits(final ? 1 : 0, 1);
+        writer.writeBits(0, 2);
+        writer.alignToByte();
+        writer.writeBits(length, 16);
+        writer.writeBits(length ^ 0xffff, 16);
+        writer.writeBytes(data.subarray(start, start + length));
+        start += length;
+    } while (start < end);
+}
+
+/**
+ * Write one dynamic Huffman block, or stored blocks when that is smaller
+ */
+function writeBlock(
+    writer: BitWriter,
+    data: Uint8Array,
+    start: number,
+    end: number,
+    symbols: Uint16Array,
+    distances: Uint16Array,
+    tokenCount: number,
+    last: boolean
+): void {
+    const literalFreqs = new Uint32Array(286);
+    const distanceFreqs = new Uint32Array(30);
+    for (let i = 0; i < tokenCount; i++) {
+        const symbol = symbols[i];
+        if (symbol < 256) {
+            literalFreqs[symbol]++;
+        } else {
+            literalFreqs[257 + LENGTH_CODE_TABLE[symbol - 256]]++;
+            distanceFreqs[DIST_CODE_TABLE[distances[i]]]++;
+        }
+    }
+    literalFreqs[END_OF_BLOCK] = 1;
+
+    const literalLengths = buildLengths(literalFreqs, 15);
+    const distanceLengths = buildLengths(distanceFreqs, 15);
+    // At least one distance code must be present
+    if (distanceLengths.every(l => l === 0)) {
+        distanceLengths[0] = 1;
+    }
+
+    let literalCount = 286;
+    while (literalCount > 257 && literalLengths[literalCount - 1] === 0) {
+        literalCount--;
+    }
+    let distanceCount = 30;
+    while (distanceCount > 1 && distanceLengths[distanceCount - 1] === 0) {
+        distanceCount--;
+    }
+
+    const allLengths = new Uint8Array(literalCount + distanceCount);
+    allLengths.set(literalLengths.subarray(0, literalCount));
+    allLengths.set(distanceLengths.subarray(0, distanceCount), literalCount);
+    const runs = encodeCodeLengths(allLengths);
+
+    const codeLengthFreqs = new Uint32Array(19);
+    for (let i = 0; i < runs.length; i += 2) {
+        codeLengthFreqs[runs[i]]++;
+    }
+    const codeLengthLengths = buildLengths(codeLengthFreqs, 7);
+    let codeLengthCount = 19;
+    while (codeLengthCount > 4 && codeLengthLengths[CODE_LENGTH_ORDER[codeLengthCount - 1]] === 0) {
+        codeLengthCount--;
+    }
+
+    // Compare the size in bits against storing the data as is
+    let bits = 17 + codeLengthCount * 3;
+    for (let i = 0; i < runs.length; i += 2) {
+        const symbol = runs[i];
+        bits += codeLengthLengths[symbol] + (symbol === 16 ? 2 : symbol === 17 ? 3 : symbol === 18 ? 7 : 0);
+    }
+    for (let s = 0; s < 286; s++) {
+        bits += literalFreqs[s] * literalLengths[s];
+        if (s > 256) {
+            bits += literalFreqs[s] * LENGTH_EXTRA[s - 257];
+        }
+    }
+    for (let s = 0; s < 30; s++) {
+        bits += distanceFreqs[s] * (distanceLengths[s] + DIST_EXTRA[s]);
+    }
+    const storedBits = (end - start) * 8 + Math.ceil((end - start) / 0xffff) * 40;
+    if (storedBits <= bits) {
+        writeStoredBlocks(writer, data, start, end, last);
+        return;
+    }
+
+    writer.writeBits(last ? 1 : 0, 1);
+    writer.writeBits(2, 2);
+    writer.writeBits(literalCount - 257, 5);
+    writer.writeBits(distanceCount - 1, 5);
+    writer.writeBits(codeLengthCount - 4, 4);
+    for (let i = 0; i < codeLengthCount; i++) {
+        writer.writeBits(codeLengthLengths[CODE_LENGTH_ORDER[i]], 3);
+    }
+
+    const codeLengthCodes = buildCodes(codeLengthLengths);
+    for (let i = 0; i < runs.length; i += 2) {
+        const symbol = runs[i];
+        writer.writeBits(codeLengthCodes[symbol], codeLengthLengths[symbol]);
+        if (symbol === 16) {
+            writer.writeBits(runs[i + 1], 2);
+        } else if (symbol === 17) {
+            writer.writeBits(runs[i + 1], 3);
+        } else if (symbol === 18) {
+            writer.writeBits(runs[i + 1], 7);
+        }
+    }
+
+    const literalCodes = buildCodes(literalLengths);
+    const distanceCodes = buildCodes(distanceLengths);
+    for (let i = 0; i < tokenCount; i++) {
+        const symbol = symbols[i];
+        if (symbol < 256) {
+            writer.writeBits(literalCodes[symbol], literalLengths[symbol]);
+            continue;
+        }
+
+        const length = symbol - 256;
+        const lengthSymbol = LENGTH_CODE_TABLE[length];
+        writer.writeBits(literalCodes[257 + lengthSymbol], literalLengths[257 + lengthSymbol]);
+        writer.writeBits(length - LENGTH_BASE[lengthSymbol], LENGTH_EXTRA[lengthSymbol]);
+
+        const distance = distances[i];
+        const distSymbol = DIST_CODE_TABLE[distance];
+        writer.writeBits(distanceCodes[distSymbol], distanceLengths[distSymbol]);
+        writer.writeBits(distance - DIST_BASE[distSymbol], DIST_EXTRA[distSymbol]);
+    }
+    writer.writeBits(literalCodes[END_OF_BLOCK], literalLengths[END_OF_BLOCK]);
+}
+
+function deflateTo(writer: BitWriter, data: Uint8Array, level: number): void {
+    if (level <= 0 || data.length === 0) {
+        writeStoredBlocks(writer, data, 0, data.length, true);
+        return;
+    }
+
+    const [maxChain, goodLength] = LEVEL_SEARCH[Math.min(level, 9)];
+    const HASH_BITS = 15;
+    const head = new Int32Array(1 << HASH_BITS).fill(-1);
+    const prev = new Int32Array(WINDOW_SIZE);
+    const hashAt = (i: number): number =>
+        (((data[i] << 10) ^ (data[i + 1] << 5) ^ data[i + 2]) * 0x9e3779b1 >>> (32 - HASH_BITS));
+    const insert = (i: number): void => {
+        if (i + MIN_MATCH <= data.length) {
+            const hash = hashAt(i);
+            prev[i & (WINDOW_SIZE - 1)] = head[hash];
+            head[hash] = i;
+        }
+    };
+
+    // Literals are stored as the byte value, matches as 256 + length with the distance alongside
+    const symbols = new Uint16Array(BLOCK_TOKENS);
+    const distances = new Uint16Array(BLOCK_TOKENS);
+    let tokenCount = 0;
+    let blockStart = 0;
+
+    let pos = 0;
+    while (pos < data.length) {
+        let bestLength = 0;
+        let bestDistance = 0;
+
+        if (pos + MIN_MATCH <= data.length) {
+            const maxLength = Math.min(MAX_MATCH, data.length - pos);
+            let candidate = head[hashAt(pos)];
+            let chain = maxChain;
+            while (candidate >= 0 && pos - candidate <= WINDOW_SIZE && chain-- > 0) {
+                if (data[candidate + bestLength] === data[pos + bestLength]) {
+                    let length = 0;
+                    while (length < maxLength && data[candidate + length] === data[pos + length]) {
+                        length++;
+                    }
+                    if (length > bestLength) {
+                        bestLength = length;
+                        bestDistance = pos - candidate;
+                        if (length >= goodLength || length === maxLength) {
+                            break;
+                        }
+                    }
+                }
+                const next = prev[candidate & (WINDOW_SIZE - 1)];
+                if (next >= candidate) {
+                    break;
+                }
+                candidate = next;
+            }
+        }
+
+        if (bestLength >= MIN_MATCH) {
+            symbols[tokenCount] = 256 + bestLength;
+            distances[tokenCount] = bestDistance;
+            for (let i = 0; i < bestLength; i++) {
+                insert(pos + i);
+            }
+            pos += bestLength;
+        } else {
+            symbols[tokenCount] = data[pos];
+            insert(pos);
+            pos++;
+        }
+        tokenCount++;
+
+        if (tokenCount === BLOCK_TOKENS) {
+            writeBlock(writer, data, blockStart, pos, symbols, distances, tokenCount, pos === data.length);
+            tokenCount = 0;
+            blockStart = pos;
+        }
+    }
+
+    if (tokenCount > 0 || blockStart === 0) {
+        writeBlock(writer, data, blockStart, pos, symbols, distances, tokenCount, true);
+    }
+}
+
+/**
+ * Compress data as raw DEFLATE
+ *
+ * @param data - Data to compress
+ * @param level - 0 stores the data uncompressed, 1-9 trade speed for ratio (default 6)
+ */
+export function deflate(data: Uint8Array, level = 6): Uint8Array {
+    const writer = new BitWriter();
+    deflateTo(writer, data, level);
+    return writer.result();
+}
+
+function adler32(data: Uint8Array): number {
+    let a = 1;
+    let b = 0;
+    for (let i = 0; i < data.length;) {
+        // Largest run that cannot overflow before the modulo
+        const end = Math.min(i + 5552, data.length);
+        for (; i < end; i++) {
+            a += data[i];
+            b += a;
+        }
+        a %= 65521;
+        b %= 65521;
+    }
+    return ((b << 16) | a) >>> 0;
+}
+
+/**
+ * Compress data into a zlib stream (2-byte header, DEFLATE data, Adler-32 checksum)
+ */
+export function zlibCompress(data: Uint8Array, level = 6): Uint8Array {
+    const writer = new BitWriter();
+    // CM 8 (deflate) with a 32K window; FLEVEL hint, FCHECK makes the header a multiple of 31
+    const cmf = 0x78;
+    const flevel = level <= 1 ? 0 : level < 6 ? 1 : level === 6 ? 2 : 3;
+    let flg = flevel << 6;
+    flg |= 31 - ((cmf * 256 + flg) % 31);
+    writer.writeBits(cmf, 8);
+    writer.writeBits(flg, 8);
+    deflateTo(writer, data, level);
+    writer.alignToByte();
+
+    const checksum = adler32(data);
+    writer.writeBits(checksum >>> 24, 8);
+    writer.writeBits((checksum >>> 16) & 0xff, 8);
+    writer.writeBits((checksum >>> 8) & 0xff, 8);
+    writer.writeBits(checksum & 0xff, 8);
+    return writer.result();
+}
+
+/**
+ * Decompress a zlib stream and verify its checksum
+ *
+ * @param data - zlib stream
+ * @param expectedSize - Optional size hint for the output buffer
+ */
+export function zlibDecompress(data: Uint8Array, expectedSize = 0): Uint8Array {
+    if (data.length < 6) {
+        throw new Error('zlib stream is too short');
+    }
+    const cmf = data[0];
+    const flg = data[1];
+    if ((cmf & 0x0f) !== 8 || (cmf >> 4) > 7) {
+        throw new Error(`Unsupported zlib compression method 0x${cmf.toString(16)}`);
+    }
+    if ((cmf * 256 + flg) % 31 !== 0) {
+        throw new Error('Invalid zlib header checksum');
+    }
+    if ((flg & 0x20) !== 0) {
+        throw new Error('zlib preset dictionaries are not supported');
+    }
+
+    const { data: output, consumed } = inflateStream(data.subarray(2), expectedSize || data.length * 4);
+    const end = 2 + consumed;
+    if (end + 4 > data.length) {
+        throw new Error('zlib stream is missing its checksum');
+    }
+    const expected = ((data[end] << 24) | (data[end + 1] << 16) | (data[end + 2] << 8) | data[end + 3]) >>> 0;
+    if (adler32(output) !== expected) {
+        throw new Error('zlib checksum mismatch');
+    }
+    return output;
+}
@@ -1,4 +1,5 @@
 import { BinaryReader } from './BinaryReader';
+import { BinaryWriter } from './BinaryWriter';
 
 /**
  * Decompresses an LZ4 block with the declared size from the reader.
@@ -141,3 +142,117 @@ function decompressLz4BlockWithDict(compressed: Uint8Array, dict: Uint8Array, di
 
     return Uint8Array.from(output);
 }
+
+const MIN_MATCH = 4;
+const LAST_LITERALS = 5;
+const MF_LIMIT = 12;
+const MAX_OFFSET = 65535;
+const HASH_LOG = 16;
+
+/**
+ * Compresses data into the chained LZ4 block layout read by decompressLz4Block:
+ * uint32 uncompressed size, followed by chunks of int24 compressed size, flags byte
+ * (0x80 marks the last chunk) and LZ4 block data. Matches may reference previous chunks
+ * within the 64 KiB window kept by the chain decoder.
+ *
+ * @param data - Data to compress
+ * @param chunkSize - Uncompressed size of each chunk
+ * @returns Compressed block; its length is the declared size expected by decompressLz4Block
+ */
+export function compressLz4Block(data: Uint8Array, chunkSize = 65536): Uint8Array {
+    if (chunkSize <= 0 || chunkSize > 0xffffff) {
+        throw new Error(`Invalid LZ4 chunk size ${chunkSize}`);
+    }
+
+    const writer = new BinaryWriter(data.length + 64);
+    writer.writeUInt32(data.length);
+
+    const hashTable = new Int32Array(1 << HASH_LOG).fill(-1);
+    let start = 0;
+    do {
+        const end = Math.min(start + chunkSize, data.length);
+        const compressed = compressLz4Chunk(data, start, end, hashTable);
+        writer.writeInt24(compressed.length);
+        writer.writeByte(end === data.length ? 0x80 : 0);
+        writer.writeBytes(compressed);
+        start = end;
+    } while (start < data.length);
+
+    return writer.getBuffer();
+}
+
+function hashSequence(data: Uint8Array, pos: number): number {
+    const sequence = data[pos] | (data[pos + 1] << 8) | (data[pos + 2] << 16) | (data[pos + 3] << 24);
+    return Math.imul(sequence, 2654435761) >>> (32 - HASH_LOG);
+}
+
+function writeLength(output: number[], length: number): void {
+    while (length >= 255) {
+        output.push(255);
+        length -= 255;
+    }
+    output.push(length);
+}
+
+/**
+ * Compresses data[start, end) as a single LZ4 block. The hash table holds absolute
+ * positions, so matches may reach back into previously compressed chunks.
+ */
+function compressLz4Chunk(data: Uint8Array, start: number, end: number, hashTable: Int32Array): Uint8Array {
+    const output: number[] = [];
+    let anchor = start;
+    let pos = start;
+
+    while (pos + MF_LIMIT <= end) {
+        const hash = hashSequence(data, pos);
+        const candidate = hashTable[hash];
+        hashTable[hash] = pos;
+
+        if (candidate < 0 || pos - candidate > MAX_OFFSET ||
+            data[candidate] !== data[pos] || data[candidate + 1] !== data[pos + 1] ||
+            data[candidate + 2] !== data[pos + 2] || data[candidate + 3] !== data[pos + 3]) {
+            pos++;
+            continue;
+        }
+
+        let matchLength = MIN_MATCH;
+        const matchLimit = end - LAST_LITERALS;
+        while (pos + matchLength < matchLimit && data[candidate + matchLength] === data[pos + matchLength]) {
+            matchLength++;
+        }
+
+        // Sequence: token, literal length, literals, offset, match length
+        const literalLength = pos - anchor;
+        const matchCode = matchLength - MIN_MATCH;
+        output.push((Math.min(literalLength, 15) << 4) | Math.min(matchCode, 15));
+        if (literalLength >= 15) {
+            writeLength(output, literalLength - 15);
+        }
+        for (let i = anchor; i < pos; i++) {
+            output.push(data[i]);
+        }
+        const offset = pos - candidate;
+        output.push(offset & 0xff, offset >> 8);
+        if (matchCode >= 15) {
+            writeLength(output, matchCode - 15);
+        }
+
+        for (let i = pos + 1; i < pos + matchLength && i + MIN_MATCH <= end; i++) {
+            hashTable[hashSequence(data, i)] = i;
+        }
+        pos += matchLength;
+        anchor = pos;
+    }
+
+    // Last sequence holds the remaining literals only
+    const literalLength = end - anchor;
+    output.push(Math.min(literalLength, 15) << 4);
+    if (literalLength >= 15) {
+        writeLength(output, literalLength - 15);
+    }
+    for (let i = anchor; i < end; i++) {
+        output.push(data[i]);
+    }
+
+    return Uint8Array.from(output);
+}
@@ -259,6 +259,15 @@ export class LZO {
         return new LZO()._decompressBuffer(buffer as Uint8Array);
     }
 
+    /**
+     * Compresses the given buffer using the LZO1X-1 algorithm.
+     * @param buffer The buffer to compress.
+     * @returns The compressed buffer, including the end-of-stream marker.
+     */
+    static compress(buffer: Uint8Array): Uint8Array {
+        return lzo1x1Compress(buffer);
+    }
+
     /**
      * Decompresses the given buffer and returns both the decompressed data and bytes read.
      * @param buffer The buffer to decompress.
@@ -274,6 +283,141 @@ export class LZO {
     }
 }
 
+const M2_MAX_LEN = 8;
+const M2_MAX_OFFSET = 0x0800;
+const M3_MAX_LEN = 33;
+const M3_MAX_OFFSET = 0x4000;
+const M3_MARKER = 32;
+const M4_MAX_LEN = 9;
+const M4_MAX_OFFSET = 0xbfff;
+const M4_MARKER = 16;
+const D_BITS = 14;
+
+/**
+ * LZO1X-1 compressor, ported from the reference lzo1x_1_compress.
+ * The input is processed in a single pass; matches further back than
+ * M4_MAX_OFFSET are ignored instead of splitting the input into chunks.
+ */
+function lzo1x1Compress(input: Uint8Array): Uint8Array {
+    const inLen = input.length;
+    const out = new Uint8Array(inLen + Math.ceil(inLen / 16) + 64 + 3);
+    const dict = new Int32Array(1 << D_BITS);
+    const readLe32 = (pos: number): number =>
+        (input[pos] | (input[pos + 1] << 8) | (input[pos + 2] << 16) | (input[pos + 3] << 24)) >>> 0;
+
+    let op = 0;
+    let ii = 0;
+
+    const writeLiteralRun = (length: number, start: number): void => {
+        if (op === 0 && length <= 238) {
+            out[op++] = 17 + length;
+        } else if (length <= 3) {
+            // Short literal runs are stored in the low bits of the previous match
+            out[op - 2] |= length;
+        } else if (length <= 18) {
+            out[op++] = length - 3;
+        } else {
+            let tt = length - 18;
+            out[op++] = 0;
+            while (tt > 255) {
+                tt -= 255;
+                out[op++] = 0;
+            }
+            out[op++] = tt;
+        }
+        out.set(input.subarray(start, start + length), op);
+        op += length;
+    };
+
+    if (inLen > 20) {
+        const ipEnd = inLen - 20;
+        let ip = 4;
+
+        for (;;) {
+            if (ip >= ipEnd) {
+                break;
+            }
+
+            const dv = readLe32(ip);
+            const dindex = (Math.imul(0x1824429d, dv) >>> (32 - D_BITS)) & ((1 << D_BITS) - 1);
+            const mPos = dict[dindex];
+            dict[dindex] = ip;
+
+            if (ip - mPos > M4_MAX_OFFSET || dv !== readLe32(mPos)) {
+                ip += 1 + ((ip - ii) >> 5);
+                continue;
+            }
+
+            if (ip > ii) {
+                writeLiteralRun(ip - ii, ii);
+            }
+
+            let mLen = 4;
+            while (ip + mLen < ipEnd && input[ip + mLen] === input[mPos + mLen]) {
+                mLen++;
+            }
+
+            let mOff = ip - mPos;
+            ip += mLen;
+            ii = ip;
+
+            if (mLen <= M2_MAX_LEN && mOff <= M2_MAX_OFFSET) {
+                mOff -= 1;
+                out[op++] = ((mLen - 1) << 5) | ((mOff & 7) << 2);
+                out[op++] = mOff >> 3;
+            } else if (mOff <= M3_MAX_OFFSET) {
+                mOff -= 1;
+                if (mLen <= M3_MAX_LEN) {
+                    out[op++] = M3_MARKER | (mLen - 2);
+                } else {
+                    mLen -= M3_MAX_LEN;
+                    out[op++] = M3_MARKER;
+                    while (mLen > 255) {
+                        mLen -= 255;
+                        out[op++] = 0;
+                    }
+                    out[op++] = mLen;
+                }
+                out[op++] = (mOff << 2) & 0xff;
+                out[op++] = (mOff >> 6) & 0xff;
+            } else {
+                mOff -= 0x4000;
+                if (mLen <= M4_MAX_LEN) {
+                    out[op++] = M4_MARKER | ((mOff >> 11) & 8) | (mLen - 2);
+                } else {
+                    mLen -= M4_MAX_LEN;
+                    out[op++] = M4_MARKER | ((mOff >> 11) & 8);
+                    while (mLen > 255) {
+                        mLen -= 255;
+                        out[op++] = 0;
+                    }
+                    out[op++] = mLen;
+                }
+                out[op++] = (mOff << 2) & 0xff;
+                out[op++] = (mOff >> 6) & 0xff;
+            }
+        }
+    }
+
+    if (inLen > ii) {
+        writeLiteralRun(inLen - ii, ii);
+    }
+
+    // End of stream marker
+    out[op++] = M4_MARKER | 1;
+    out[op++] = 0;
+    out[op++] = 0;
+
+    return out.slice(0, op);
+}
+
+/**
+ * Simple compression helper
+ */
+export function lzoCompress(src: Uint8Array | Buffer): Uint8Array {
+    return LZO.compress(src instanceof Uint8Array ? src : new Uint8Array(src));
+}
+
 /**
  * Simple decompression helper
  */
@@ -1,5 +1,5 @@
 /**
- * LZSS (Lempel-Ziv-Storer-Szymanski) decompression
+ * LZSS (Lempel-Ziv-Storer-Szymanski) compression and decompression
  */
 
 const N = 4096;
@@ -99,10 +99,106 @@ export function lzssDecompress(
     };
 }
 
+const HASH_BITS = 12;
+const MAX_CHAIN = 64;
+
+function hash3(data: Uint8Array, pos: number): number {
+    return ((data[pos] << 8) ^ (data[pos + 1] << 4) ^ data[pos + 2]) & ((1 << HASH_BITS) - 1);
+}
+
+/**
+ * Compress data into an LZSS stream readable by lzssDecompress
+ * @param input Data to compress
+ * @param useSignedChecksum Whether to use signed checksum calculation
+ * @returns Compressed stream followed by the int32 checksum, empty for empty input as lzssDecompress reads nothing then
+ */
+export function lzssCompress(input: Buffer | Uint8Array, useSignedChecksum = false): Uint8Array {
+    const length = input.length;
+    if (length === 0) {
+        return new Uint8Array(0);
+    }
+    // Worst case: every byte is a literal, plus one flag byte per 8 items and the checksum
+    const output = new Uint8Array(length + Math.ceil(length / 8) + 4);
+    const head = new Int32Array(1 << HASH_BITS).fill(-1);
+    const prev = new Int32Array(N).fill(-1);
+
+    const insert = (pos: number): void => {
+        if (pos + 2 < length) {
+            const h = hash3(input, pos);
+            prev[pos & (N - 1)] = head[h];
+            head[h] = pos;
+        }
+    };
+
+    let outPos = 0;
+    let flagPos = 0;
+    let flagBit = 8;
+    let pos = 0;
+
+    while (pos < length) {
+        if (flagBit === 8) {
+            flagPos = outPos++;
+            output[flagPos] = 0;
+            flagBit = 0;
+        }
+
+        // Find the longest match within the window
+        let bestLength = 0;
+        let bestDistance = 0;
+        const maxLength = Math.min(F, length - pos);
+        if (maxLength > THRESHOLD) {
+            let candidate = head[hash3(input, pos)];
+            for (let chain = 0; chain < MAX_CHAIN && candidate >= 0; chain++) {
+                const distance = pos - candidate;
+                if (distance >= N) {
+                    break;
+                }
+
+                let matchLength = 0;
+                while (matchLength < maxLength && input[candidate + matchLength] === input[pos + matchLength]) {
+                    matchLength++;
+                }
+                if (matchLength > bestLength) {
+                    bestLength = matchLength;
+                    bestDistance = distance;
+                    if (matchLength === maxLength) {
+                        break;
+                    }
+                }
+
+                candidate = prev[candidate & (N - 1)];
+            }
+        }
+
+        if (bestLength > THRESHOLD) {
+            // Match: 12-bit distance and 4-bit (length - THRESHOLD - 1)
+            const code = bestLength - THRESHOLD - 1;
+            output[outPos++] = bestDistance & 0xff;
+            output[outPos++] = ((bestDistance >> 4) & 0xf0) | code;
+            for (let i = 0; i < bestLength; i++) {
+                insert(pos + i);
+            }
+            pos += bestLength;
+        } else {
+            output[flagPos] |= 1 << flagBit;
+            output[outPos++] = input[pos];
+            insert(pos);
+            pos++;
+        }
+        flagBit++;
+    }
+
+    const checksum = calculateChecksum(input, useSignedChecksum);
+    new DataView(output.buffer).setInt32(outPos, checksum, true);
+    outPos += 4;
+
+    return output.slice(0, outPos);
+}
+
 /**
  * Calculate CRC/checksum for data
  */
-export function calculateChecksum(data: Buffer, signed = false): number {
+export function calculateChecksum(data: Buffer | Uint8Array, signed = false): number {
     let checksum = 0;
     for (const byte of data) {
         checksum = (checksum + (signed ? (byte << 24 >> 24) : byte)) | 0;
@@ -0,0 +1,393 @@
+import { zlibCompress, zlibDecompress } from './Deflate';
+import { RgbaImage } from './RgbaImage';
+
+export interface PngEncodeOptions {
+    /** zlib compression level 0-9, defaults to 6 */
+    level?: number;
+}
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+const COLOR_TYPE_GRAY = 0;
+const COLOR_TYPE_RGB = 2;
+const COLOR_TYPE_PALETTE = 3;
+const COLOR_TYPE_GRAY_ALPHA = 4;
+const COLOR_TYPE_RGBA = 6;
+
+/** Samples per pixel for each color type */
+const CHANNELS: Record<number, number> = {
+    [COLOR_TYPE_GRAY]: 1,
+    [COLOR_TYPE_RGB]: 3,
+    [COLOR_TYPE_PALETTE]: 1,
+    [COLOR_TYPE_GRAY_ALPHA]: 2,
+    [COLOR_TYPE_RGBA]: 4,
+};
+
+/** Adam7 passes: [x start, y start, x step, y step] */
+const ADAM7_PASSES: [number, number, number, number][] = [
+    [0, 0, 8, 8], [4, 0, 8, 8], [0, 4, 4, 8], [2, 0, 4, 4], [0, 2, 2, 4], [1, 0, 2, 2], [0, 1, 1, 2],
+];
+
+let crcTable: Uint32Array | null = null;
+
+function crc32(data: Uint8Array, start: number, end: number): number {
+    crcTable ??= Uint32Array.from({ length: 256 }, (_, n) => {
+        let c = n;
+        for (let k = 0; k < 8; k++) {
+            c = (c & 1) !== 0 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+        }
+        return c >>> 0;
+    });
+
+    let crc = 0xffffffff;
+    for (let i = start; i < end; i++) {
+        crc = crcTable[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+    }
+    return (crc ^ 0xffffffff) >>> 0;
+}
+
+function paeth(a: number, b: number, c: number): number {
+    const p = a + b - c;
+    const pa = Math.abs(p - a);
+    const pb = Math.abs(p - b);
+    const pc = Math.abs(p - c);
+    if (pa <= pb && pa <= pc) {
+        return a;
+    }
+    return pb <= pc ? b : c;
+}
+
+/**
+ * Undo the per-scanline filters in place. Each row is prefixed by its filter type byte.
+ */
+function unfilter(data: Uint8Array, offset: number, rowBytes: number, rows: number, bpp: number): void {
+    for (let y = 0; y < rows; y++) {
+        const start = offset + y * (rowBytes + 1);
+        const filter = data[start];
+        const row = start + 1;
+        const prior = row - rowBytes - 1;
+        const hasPrior = y > 0;
+
+        for (let i = 0; i < rowBytes; i++) {
+            const a = i >= bpp ? data[row + i - bpp] : 0;
+            const b = hasPrior ? data[prior + i] : 0;
+            const c = hasPrior && i >= bpp ? data[prior + i - bpp] : 0;
+            let predictor: number;
+            switch (filter) {
+                case 0: predictor = 0; break;
+                case 1: predictor = a; break;
+                case 2: predictor = b; break;
+                case 3: predictor = (a + b) >> 1; break;
+                case 4: predictor = paeth(a, b, c); break;
+                default:
+                    throw new Error(`Invalid PNG filter type ${filter}`);
+            }
+            data[row + i] = (data[row + i] + predictor) & 0xff;
+        }
+    }
+}
+
+interface PngHeader {
+    width: number;
+    height: number;
+    bitDepth: number;
+    colorType: number;
+    interlaced: boolean;
+}
+
+/**
+ * Convert unfiltered scanlines of one pass to RGBA pixels of the output image
+ */
+function expandPass(
+    header: PngHeader,
+    raw: Uint8Array,
+    offset: number,
+    passWidth: number,
+    passHeight: number,
+    place: (x: number, y: number) => number,
+    out: Uint8Array,
+    palette: Uint8Array | null,
+    transparency: Uint8Array | null
+): void {
+    const { bitDepth, colorType } = header;
+    const channels = CHANNELS[colorType];
+    const rowBytes = Math.ceil(passWidth * channels * bitDepth / 8);
+    const maxValue = (1 << bitDepth) - 1;
+    const trns = transparency !== null && transparency.length >= 2 && colorType !== COLOR_TYPE_PALETTE
+        ? Array.from({ length: transparency.length >> 1 }, (_, i) => (transparency[i * 2] << 8) | transparency[i * 2 + 1])
+        : null;
+
+    for (let y = 0; y < passHeight; y++) {
+        const row = offset + y * (rowBytes + 1) + 1;
+
+        // Raw sample values of the pixel, at the image bit depth
+        const sample = (x: number, channel: number): number => {
+            const index = x * channels + channel;
+            if (bitDepth === 8) {
+                return raw[row + index];
+            }
+            if (bitDepth === 16) {
+                return (raw[row + index * 2] << 8) | raw[row + index * 2 + 1];
+            }
+            const bit = index * bitDepth;
+            return (raw[row + (bit >> 3)] >> (8 - bitDepth - (bit & 7))) & maxValue;
+        };
+        const to8 = (value: number): number => Math.round(value * 255 / maxValue);
+
+        for (let x = 0; x < passWidth; x++) {
+            const o = place(x, y);
+            switch (colorType) {
+                case COLOR_TYPE_GRAY: {
+                    const v = sample(x, 0);
+                    out[o] = out[o + 1] = out[o + 2] = to8(v);
+                    out[o + 3] = trns !== null && v === trns[0] ? 0 : 255;
+                    break;
+                }
+                case COLOR_TYPE_RGB: {
+                    const r = sample(x, 0);
+                    const g = sample(x, 1);
+                    const b = sample(x, 2);
+                    out[o] = to8(r);
+                    out[o + 1] = to8(g);
+                    out[o + 2] = to8(b);
+                    out[o + 3] = trns !== null && trns.length >= 3 && r === trns[0] && g === trns[1] && b === trns[2] ? 0 : 255;
+                    break;
+                }
+                case COLOR_TYPE_PALETTE: {
+                    const index = sample(x, 0);
+                    if (palette === null || index * 3 + 2 >= palette.length) {
+                        throw new Error(`PNG palette index ${index} out of range`);
+                    }
+                    out[o] = palette[index * 3];
+                    out[o + 1] = palette[index * 3 + 1];
+                    out[o + 2] = palette[index * 3 + 2];
+                    out[o + 3] = transparency !== null && index < transparency.length ? transparency[index] : 255;
+                    break;
+                }
+                case COLOR_TYPE_GRAY_ALPHA:
+                    out[o] = out[o + 1] = out[o + 2] = to8(sample(x, 0));
+                    out[o + 3] = to8(sample(x, 1));
+                    break;
+                default:
+                    out[o] = to8(sample(x, 0));
+                    out[o + 1] = to8(sample(x, 1));
+                    out[o + 2] = to8(sample(x, 2));
+                    out[o + 3] = to8(sample(x, 3));
+                    break;
+            }
+        }
+    }
+}
+
+/**
+ * Decode a PNG file to an RGBA image. All color types, bit depths (16-bit is reduced to 8) and Adam7 interlacing are supported.
+ */
+export function decodePng(data: Uint8Array): RgbaImage {
+    for (let i = 0; i < PNG_SIGNATURE.length; i++) {
+        if (data[i] !== PNG_SIGNATURE[i]) {
+            throw new Error('Invalid PNG signature');
+        }
+    }
+
+    const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+    let header: PngHeader | null = null;
+    let palette: Uint8Array | null = null;
+    let transparency: Uint8Array | null = null;
+    const idat: Uint8Array[] = [];
+
+    let pos = PNG_SIGNATURE.length;
+    for (;;) {
+        if (pos + 12 > data.length) {
+            throw new Error('Unexpected end of PNG data');
+        }
+        const length = view.getUint32(pos);
+        const type = String.fromCharCode(data[pos + 4], data[pos + 5], data[pos + 6], data[pos + 7]);
+        const start = pos + 8;
+        const end = start + length;
+        if (end + 4 > data.length) {
+            throw new Error(`PNG chunk ${type} overruns the file`);
+        }
+        if (crc32(data, pos + 4, end) !== view.getUint32(end)) {
+            throw new Error(`PNG chunk ${type} has a bad CRC`);
+        }
+        const body = data.subarray(start, end);
+        pos = end + 4;
+
+        if (type === 'IHDR') {
+            header = {
+                width: view.getUint32(start),
+                height: view.getUint32(start + 4),
+                bitDepth: body[8],
+                colorType: body[9],
+                interlaced: body[12] === 1,
+            };
+            if (!(header.colorType in CHANNELS) || ![1, 2, 4, 8, 16].includes(header.bitDepth)) {
+                throw new Error(`Unsupported PNG color type ${header.colorType} with bit depth ${header.bitDepth}`);
+            }
+            if (body[10] !== 0 || body[11] !== 0) {
+                throw new Error('Unsupported PNG compression or filter method');
+            }
+        } else if (type === 'PLTE') {
+            palette = body;
+        } else if (type === 'tRNS') {
+            transparency = body;
+        } else if (type === 'IDAT') {
+            idat.push(body);
+        } else if (type === 'IEND') {
+            break;
+        } else if ((type.charCodeAt(0) & 0x20) === 0) {
+            // Unknown critical chunk (uppercase first letter) that we cannot ignore
+            throw new Error(`Unsupported critical PNG chunk ${type}`);
+        }
+    }
+
+    if (header === null) {
+        throw new Error('PNG is missing its IHDR chunk');
+    }
+    if (idat.length === 0) {
+        throw new Error('PNG has no image data');
+    }
+
+    const compressed = new Uint8Array(idat.reduce((sum, chunk) => sum + chunk.length, 0));
+    let offset = 0;
+    for (const chunk of idat) {
+        compressed.set(chunk, offset);
+        offset += chunk.length;
+    }
+
+    const { width, height, bitDepth, colorType } = header;
+    const bitsPerPixel = CHANNELS[colorType] * bitDepth;
+    const bpp = Math.max(1, bitsPerPixel >> 3);
+    const passes = header.interlaced ? ADAM7_PASSES : [[0, 0, 1, 1] as [number, number, number, number]];
+
+    let expectedSize = 0;
+    for (const [x0, y0, dx, dy] of passes) {
+        const passWidth = Math.ceil((width - x0) / dx);
+        const passHeight = Math.ceil((height - y0) / dy);
+        if (passWidth > 0 && passHeight > 0) {
+            expectedSize += passHeight * (Math.ceil(passWidth * bitsPerPixel / 8) + 1);
+        }
+    }
+
+    const raw = zlibDecompress(compressed, expectedSize);
+    if (raw.length < expectedSize) {
+        throw new Error(`PNG image data is too short (expected ${expectedSize} bytes, got ${raw.length})`);
+    }
+
+    const rgba = new Uint8Array(width * height * 4);
+    offset = 0;
+    for (const [x0, y0, dx, dy] of passes) {
+        const passWidth = Math.ceil((width - x0) / dx);
+        const passHeight = Math.ceil((height - y0) / dy);
+        if (passWidth <= 0 || passHeight <= 0) {
+            continue;
+        }
+        const rowBytes = Math.ceil(passWidth * bitsPerPixel / 8);
+        unfilter(raw, offset, rowBytes, passHeight, bpp);
+        expandPass(header, raw, offset, passWidth, passHeight,
+            (x, y) => ((y0 + y * dy) * width + x0 + x * dx) * 4, rgba, palette, transparency);
+        offset += passHeight * (rowBytes + 1);
+    }
+
+    return new RgbaImage(width, height, rgba);
+}
+
+/**
+ * Filter the scanlines, picking the filter with the smallest sum of absolute differences per row
+ */
+function filterScanlines(pixels: Uint8Array, width: number, height: number, bpp: number): Uint8Array {
+    const rowBytes = width * bpp;
+    const out = new Uint8Array(height * (rowBytes + 1));
+    const candidate = new Uint8Array(rowBytes);
+
+    for (let y = 0; y < height; y++) {
+        const row = y * rowBytes;
+        const prior = row - rowBytes;
+        const target = y * (rowBytes + 1);
+        let bestScore = Infinity;
+
+        for (let filter = 0; filter < 5; filter++) {
+            let score = 0;
+            for (let i = 0; i < rowBytes; i++) {
+                const a = i >= bpp ? pixels[row + i - bpp] : 0;
+                const b = y > 0 ? pixels[prior + i] : 0;
+                const c = y > 0 && i >= bpp ? pixels[prior + i - bpp] : 0;
+                let predictor = 0;
+                switch (filter) {
+                    case 1: predictor = a; break;
+                    case 2: predictor = b; break;
+                    case 3: predictor = (a + b) >> 1; break;
+                    case 4: predictor = paeth(a, b, c); break;
+                }
+                const value = (pixels[row + i] - predictor) & 0xff;
+                candidate[i] = value;
+                score += value < 128 ? value : 256 - value;
+            }
+            if (score < bestScore) {
+                bestScore = score;
+                out[target] = filter;
+                out.set(candidate, target + 1);
+            }
+        }
+    }
+
+    return out;
+}
+
+function writeChunk(parts: Uint8Array[], type: string, body: Uint8Array): void {
+    const chunk = new Uint8Array(body.length + 12);
+    const view = new DataView(chunk.buffer);
+    view.setUint32(0, body.length);
+    for (let i = 0; i < 4; i++) {
+        chunk[4 + i] = type.charCodeAt(i);
+    }
+    chunk.set(body, 8);
+    view.setUint32(body.length + 8, crc32(chunk, 4, body.length + 8));
+    parts.push(chunk);
+}
+
+/**
+ * Encode an image as an 8-bit PNG. Opaque images are written as RGB, others as RGBA with straight alpha.
+ */
+export function encodePng(image: RgbaImage, options: PngEncodeOptions = {}): Uint8Array {
+    const rgba = image.toRgba().unpremultiply().data;
+    const { width, height } = image;
+
+    let opaque = true;
+    for (let i = 3; i < rgba.length; i += 4) {
+        if (rgba[i] !== 255) {
+            opaque = false;
+            break;
+        }
+    }
+
+    let pixels = rgba;
+    if (opaque) {
+        pixels = new Uint8Array(width * height * 3);
+        for (let i = 0, j = 0; i < rgba.length; i += 4, j += 3) {
+            pixels[j] = rgba[i];
+            pixels[j + 1] = rgba[i + 1];
+            pixels[j + 2] = rgba[i + 2];
+        }
+    }
+
+    const ihdr = new Uint8Array(13);
+    const ihdrView = new DataView(ihdr.buffer);
+    ihdrView.setUint32(0, width);
+    ihdrView.setUint32(4, height);
+    ihdr[8] = 8;
+    ihdr[9] = opaque ? COLOR_TYPE_RGB : COLOR_TYPE_RGBA;
+
+    const parts: Uint8Array[] = [Uint8Array.from(PNG_SIGNATURE)];
+    writeChunk(parts, 'IHDR', ihdr);
+    writeChunk(parts, 'IDAT', zlibCompress(filterScanlines(pixels, width, height, opaque ? 3 : 4), options.level ?? 6));
+    writeChunk(parts, 'IEND', new Uint8Array(0));
+
+    const out = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+    let offset = 0;
+    for (const part of parts) {
+        out.set(part, offset);
+        offset += part.length;
+    }
+    return out;
+}
@@ -0,0 +1,336 @@
+import { CHANNEL_OFFSETS, RgbaImage, linearToSrgb, srgbToLinear, type ChannelLayout } from './RgbaImage';
+
+export type ResampleFilter = 'box' | 'triangle' | 'kaiser' | 'lanczos';
+
+/**
+ * How samples outside the image are treated: clamp to the edge pixel, or wrap around for tiling textures
+ */
+export type ResampleEdgeMode = 'clamp' | 'wrap';
+
+export interface ResampleOptions {
+    /** Reconstruction filter, defaults to box */
+    filter?: ResampleFilter;
+    edgeMode?: ResampleEdgeMode;
+    /** Filter the color of sRGB images in linear light, defaults to true. Ignored for linear images and normal maps */
+    gammaCorrect?: boolean;
+    /** Treat RGB as a unit vector (tangent-space normal map) and renormalize it after filtering */
+    normalMap?: boolean;
+}
+
+export interface MipChainOptions extends ResampleOptions {
+    /**
+     * Keep the fraction of pixels with alpha at or above this cutoff (0-255) equal to the top level,
+     * so alpha-tested foliage does not thin out in the distance
+     */
+    alphaCoverageThreshold?: number;
+    /** Stop before either dimension drops below this size, defaults to 1 */
+    minSize?: number;
+    /** Maximum number of levels including the top level */
+    maxLevels?: number;
+}
+
+interface FilterKernel {
+    support: number;
+    evaluate: (x: number) => number;
+}
+
+function sinc(x: number): number {
+    if (x === 0) {
+        return 1;
+    }
+    const px = Math.PI * x;
+    return Math.sin(px) / px;
+}
+
+// Zeroth order modified Bessel function of the first kind, used by the Kaiser window
+function besselI0(x: number): number {
+    let sum = 1;
+    let term = 1;
+    const halfSq = x * x / 4;
+    for (let k = 1; k < 32; k++) {
+        term *= halfSq / (k * k);
+        sum += term;
+        if (term < sum * 1e-10) {
+            break;
+        }
+    }
+    return sum;
+}
+
+const KAISER_ALPHA = 4;
+const KAISER_NORM = 1 / besselI0(KAISER_ALPHA);
+
+const FILTERS: Record<ResampleFilter, FilterKernel> = {
+    box: {
+        support: 0.5,
+        evaluate: x => (x >= -0.5 && x < 0.5 ? 1 : 0),
+    },
+    triangle: {
+        support: 1,
+        evaluate: x => Math.max(0, 1 - Math.abs(x)),
+    },
+    kaiser: {
+        support: 3,
+        evaluate: (x) => {
+            const t = x / 3;
+            if (t <= -1 || t >= 1) {
+                return 0;
+            }
+            return sinc(x) * besselI0(KAISER_ALPHA * Math.sqrt(1 - t * t)) * KAISER_NORM;
+        },
+    },
+    lanczos: {
+        support: 3,
+        evaluate: x => (x > -3 && x < 3 ? sinc(x) * sinc(x / 3) : 0),
+    },
+};
+
+/** Source pixel indices and normalized weights contributing to each destination pixel along one axis */
+interface Contributors {
+    indices: Int32Array[];
+    weights: Float32Array[];
+}
+
+function computeContributors(srcSize: number, dstSize: number, kernel: FilterKernel, edgeMode: ResampleEdgeMode): Contributors {
+    const scale = dstSize / srcSize;
+    // Widen the filter when minifying so it covers every source pixel
+    const filterScale = Math.min(scale, 1);
+    const support = kernel.support / filterScale;
+
+    const indices: Int32Array[] = [];
+    const weights: Float32Array[] = [];
+    for (let i = 0; i < dstSize; i++) {
+        const center = (i + 0.5) / scale - 0.5;
+        const first = Math.floor(center - support);
+        const last = Math.ceil(center + support);
+
+        const idx: number[] = [];
+        const wts: number[] = [];
+        let total = 0;
+        for (let j = first; j <= last; j++) {
+            const weight = kernel.evaluate((j - center) * filterScale);
+            if (weight === 0) {
+                continue;
+            }
+            const index = edgeMode === 'wrap'
+                ? ((j % srcSize) + srcSize) % srcSize
+                : Math.min(srcSize - 1, Math.max(0, j));
+            idx.push(index);
+            wts.push(weight);
+            total += weight;
+        }
+
+        if (idx.length === 0 || total === 0) {
+            // Degenerate window, fall back to the nearest pixel
+            idx.length = 0;
+            wts.length = 0;
+            idx.push(Math.min(srcSize - 1, Math.max(0, Math.round(center))));
+            wts.push(1);
+            total = 1;
+        }
+
+        indices.push(Int32Array.from(idx));
+        weights.push(Float32Array.from(wts, w => w / total));
+    }
+
+    return { indices, weights };
+}
+
+let srgbDecodeTable: Float32Array | null = null;
+
+// Vector x, y and z are the red, green and blue channels, wherever the layout puts them
+function renormalize(data: Float32Array, layout: ChannelLayout): void {
+    const [r, g, b] = CHANNEL_OFFSETS[layout];
+    for (let i = 0; i < data.length; i += 4) {
+        const x = data[i + r] * 2 - 1;
+        const y = data[i + g] * 2 - 1;
+        const z = data[i + b] * 2 - 1;
+        const length = Math.sqrt(x * x + y * y + z * z);
+        if (length < 1e-6) {
+            data[i + r] = 0.5;
+            data[i + g] = 0.5;
+            data[i + b] = 1;
+        } else {
+            data[i + r] = (x / length + 1) / 2;
+            data[i + g] = (y / length + 1) / 2;
+            data[i + b] = (z / length + 1) / 2;
+        }
+    }
+}
+
+/**
+ * Resize an image with a separable filter. The result keeps the layout, color space and alpha mode of the source.
+ */
+export function resampleImage(image: RgbaImage, width: number, height: number, options: ResampleOptions = {}): RgbaImage {
+    if (width < 1 || height < 1) {
+        throw new Error(`Invalid target size ${width}x${height}`);
+    }
+
+    const kernel = FILTERS[options.filter ?? 'box'];
+    const edgeMode = options.edgeMode ?? 'clamp';
+    const linearize = image.colorSpace === 'srgb' && (options.gammaCorrect ?? true) && !options.normalMap;
+    const alpha = image.layout === 'ARGB' ? 0 : 3;
+
+    // Decode to floats in [0, 1], color in linear light when filtering gamma correctly
+    const src = image.data;
+    const decoded = new Float32Array(src.length);
+    let decode: Float32Array | null = null;
+    if (linearize) {
+        decode = srgbDecodeTable ??= Float32Array.from({ length: 256 }, (_, i) => srgbToLinear(i / 255));
+    }
+    for (let i = 0; i < src.length; i++) {
+        decoded[i] = decode !== null && (i & 3) !== alpha ? decode[src[i]] : src[i] / 255;
+    }
+
+    // Horizontal pass: srcHeight rows of the target width
+    const horizontal = computeContributors(image.width, width, kernel, edgeMode);
+    const rows = new Float32Array(width * image.height * 4);
+    for (let y = 0; y < image.height; y++) {
+        const srcRow = y * image.width;
+        for (let x = 0; x < width; x++) {
+            const idx = horizontal.indices[x];
+            const wts = horizontal.weights[x];
+            const out = (y * width + x) * 4;
+            for (let k = 0; k < idx.length; k++) {
+                const s = (srcRow + idx[k]) * 4;
+                const w = wts[k];
+                rows[out] += decoded[s] * w;
+                rows[out + 1] += decoded[s + 1] * w;
+                rows[out + 2] += decoded[s + 2] * w;
+                rows[out + 3] += decoded[s + 3] * w;
+            }
+        }
+    }
+
+    // Vertical pass
+    const vertical = computeContributors(image.height, height, kernel, edgeMode);
+    const result = new Float32Array(width * height * 4);
+    for (let y = 0; y < height; y++) {
+        const idx = vertical.indices[y];
+        const wts = vertical.weights[y];
+        for (let x = 0; x < width; x++) {
+            const out = (y * width + x) * 4;
+            for (let k = 0; k < idx.length; k++) {
+                const s = (idx[k] * width + x) * 4;
+                const w = wts[k];
+                result[out] += rows[s] * w;
+                result[out + 1] += rows[s + 1] * w;
+                result[out + 2] += rows[s + 2] * w;
+                result[out + 3] += rows[s + 3] * w;
+            }
+        }
+    }
+
+    // Negative lobes can overshoot
+    for (let i = 0; i < result.length; i++) {
+        result[i] = Math.min(1, Math.max(0, result[i]));
+    }
+
+    if (options.normalMap) {
+        renormalize(result, image.layout);
+    }
+
+    const data = new Uint8Array(result.length);
+    for (let i = 0; i < result.length; i++) {
+        const value = linearize && (i & 3) !== alpha ? linearToSrgb(result[i]) : result[i];
+        data[i] = Math.round(value * 255);
+    }
+
+    return new RgbaImage(width, height, data, image.layout, image.colorSpace, image.alphaMode);
+}
+
+/**
+ * Halve an image, as used for the next level of a mip chain
+ */
+export function downsampleImage(image: RgbaImage, options: ResampleOptions = {}): RgbaImage {
+    return resampleImage(image, Math.max(1, image.width >> 1), Math.max(1, image.height >> 1), options);
+}
+
+/**
+ * Fraction of pixels whose alpha is at or above the threshold
+ */
+export function computeAlphaCoverage(image: RgbaImage, threshold: number): number {
+    const alpha = image.layout === 'ARGB' ? 0 : 3;
+    const data = image.data;
+    let covered = 0;
+    for (let i = alpha; i < data.length; i += 4) {
+        if (data[i] >= threshold) {
+            covered++;
+        }
+    }
+    return covered / (image.width * image.height);
+}
+
+/**
+ * Scale alpha so that the given fraction of pixels passes the alpha test at the threshold
+ */
+export function scaleAlphaToCoverage(image: RgbaImage, coverage: number, threshold: number): RgbaImage {
+    const alpha = image.layout === 'ARGB' ? 0 : 3;
+    const data = image.data;
+
+    const coverageAt = (scale: number): number => {
+        let covered = 0;
+        for (let i = alpha; i < data.length; i += 4) {
+            if (Math.min(255, Math.round(data[i] * scale)) >= threshold) {
+                covered++;
+            }
+        }
+        return covered / (image.width * image.height);
+    };
+
+    // Coverage grows with the scale, so bisect for the closest match
+    let low = 0;
+    let high = 4;
+    let bestScale = 1;
+    let bestError = Math.abs(coverageAt(1) - coverage);
+    for (let i = 0; i < 16 && bestError > 0; i++) {
+        const mid = (low + high) / 2;
+        const current = coverageAt(mid);
+        const error = Math.abs(current - coverage);
+        if (error < bestError) {
+            bestError = error;
+            bestScale = mid;
+        }
+        if (current < coverage) {
+            low = mid;
+        } else {
+            high = mid;
+        }
+    }
+
+    if (bestScale === 1) {
+        return image;
+    }
+
+    const scaled = data.slice();
+    for (let i = alpha; i < scaled.length; i += 4) {
+        scaled[i] = Math.min(255, Math.round(data[i] * bestScale));
+    }
+    return image.clone(scaled);
+}
+
+/**
+ * Build a mip chain starting with the given image, halving each level until 1x1 or the limits are reached.
+ * Each level is filtered from the previous one; alpha coverage adjustments do not accumulate.
+ */
+export function generateMipChain(image: RgbaImage, options: MipChainOptions = {}): RgbaImage[] {
+    const minSize = options.minSize ?? 1;
+    const maxLevels = options.maxLevels ?? Infinity;
+    const threshold = options.alphaCoverageThreshold;
+    const coverage = threshold !== undefined ? computeAlphaCoverage(image, threshold) : 0;
+
+    const levels = [image];
+    let current = image;
+    while (levels.length < maxLevels) {
+        const w = Math.max(1, current.width >> 1);
+        const h = Math.max(1, current.height >> 1);
+        if ((w === current.width && h === current.height) || w < minSize || h < minSize) {
+            break;
+        }
+
+        current = resampleImage(current, w, h, options);
+        levels.push(threshold !== undefined ? scaleAlphaToCoverage(current, coverage, threshold) : current);
+    }
+
+    return levels;
+}
@@ -0,0 +1,188 @@
+/**
+ * Byte order of the four channels of a pixel in memory.
+ * Note that "ARGB32" pixels of the PAA format are BGRA in memory (little-endian ARGB).
+ */
+export type ChannelLayout = 'RGBA' | 'BGRA' | 'ARGB';
+
+export type ColorSpace = 'srgb' | 'linear';
+
+/**
+ * Straight alpha keeps color independent of alpha, premultiplied color is already multiplied by alpha
+ */
+export type AlphaMode = 'straight' | 'premultiplied';
+
+// Offsets of red, green, blue and alpha within a pixel
+export const CHANNEL_OFFSETS: Record<ChannelLayout, [number, number, number, number]> = {
+    RGBA: [0, 1, 2, 3],
+    BGRA: [2, 1, 0, 3],
+    ARGB: [1, 2, 3, 0],
+};
+
+/**
+ * Convert an sRGB encoded value in [0, 1] to linear light
+ */
+export function srgbToLinear(value: number): number {
+    return value <= 0.04045 ? value / 12.92 : Math.pow((value + 0.055) / 1.055, 2.4);
+}
+
+/**
+ * Convert a linear light value in [0, 1] to sRGB encoding
+ */
+export function linearToSrgb(value: number): number {
+    return value <= 0.0031308 ? value * 12.92 : 1.055 * Math.pow(value, 1 / 2.4) - 0.055;
+}
+
+function buildTable(convert: (value: number) => number): Uint8Array {
+    const table = new Uint8Array(256);
+    for (let i = 0; i < 256; i++) {
+        table[i] = Math.round(Math.min(1, Math.max(0, convert(i / 255))) * 255);
+    }
+    return table;
+}
+
+let srgbToLinearTable: Uint8Array | null = null;
+let linearToSrgbTable: Uint8Array | null = null;
+
+/**
+ * 8-bit per channel image that knows its dimensions, channel layout, color space and alpha convention
+ */
+export class RgbaImage {
+    public width: number;
+    public height: number;
+    public data: Uint8Array;
+    public layout: ChannelLayout;
+    public colorSpace: ColorSpace;
+    public alphaMode: AlphaMode;
+
+    constructor(
+        width: number,
+        height: number,
+        data: Uint8Array,
+        layout: ChannelLayout = 'RGBA',
+        colorSpace: ColorSpace = 'srgb',
+        alphaMode: AlphaMode = 'straight'
+    ) {
+        if (data.length !== width * height * 4) {
+            throw new Error(`Expected ${width * height * 4} bytes of pixel data for ${width}x${height}, got ${data.length}`);
+        }
+        this.width = width;
+        this.height = height;
+        this.data = data;
+        this.layout = layout;
+        this.colorSpace = colorSpace;
+        this.alphaMode = alphaMode;
+    }
+
+    /**
+     * Create a new image with the same properties, optionally replacing the pixel data
+     */
+    clone(data: Uint8Array = this.data.slice()): RgbaImage {
+        return new RgbaImage(this.width, this.height, data, this.layout, this.colorSpace, this.alphaMode);
+    }
+
+    /**
+     * Reorder the channels into the given layout. Returns this image if it already matches.
+     */
+    toLayout(layout: ChannelLayout): RgbaImage {
+        if (layout === this.layout) {
+            return this;
+        }
+
+        const src = CHANNEL_OFFSETS[this.layout];
+        const dst = CHANNEL_OFFSETS[layout];
+        const data = new Uint8Array(this.data.length);
+        for (let i = 0; i < data.length; i += 4) {
+            for (let c = 0; c < 4; c++) {
+                data[i + dst[c]] = this.data[i + src[c]];
+            }
+        }
+
+        const image = this.clone(data);
+        image.layout = layout;
+        return image;
+    }
+
+    toRgba(): RgbaImage {
+        return this.toLayout('RGBA');
+    }
+
+    toBgra(): RgbaImage {
+        return this.toLayout('BGRA');
+    }
+
+    toArgb(): RgbaImage {
+        return this.toLayout('ARGB');
+    }
+
+    /**
+     * Convert the color channels to the given color space; alpha is left untouched.
+     * Both directions lose precision at 8 bits per channel.
+     */
+    toColorSpace(colorSpace: ColorSpace): RgbaImage {
+        if (colorSpace === this.colorSpace) {
+            return this;
+        }
+
+        let table: Uint8Array;
+        if (colorSpace === 'linear') {
+            table = srgbToLinearTable ??= buildTable(srgbToLinear);
+        } else {
+            table = linearToSrgbTable ??= buildTable(linearToSrgb);
+        }
+
+        const alpha = CHANNEL_OFFSETS[this.layout][3];
+        const data = new Uint8Array(this.data.length);
+        for (let i = 0; i < data.length; i++) {
+            data[i] = (i & 3) === alpha ? this.data[i] : table[this.data[i]];
+        }
+
+        const image = this.clone(data);
+        image.colorSpace = colorSpace;
+        return image;
+    }
+
+    toLinear(): RgbaImage {
+        return this.toColorSpace('linear');
+    }
+
+    toSrgb(): RgbaImage {
+        return this.toColorSpace('srgb');
+    }
+
+    /**
+     * Convert to the given alpha convention. Un-premultiplying fully transparent pixels yields black.
+     */
+    toAlphaMode(alphaMode: AlphaMode): RgbaImage {
+        if (alphaMode === this.alphaMode) {
+            return this;
+        }
+
+        const alpha = CHANNEL_OFFSETS[this.layout][3];
+        const data = new Uint8Array(this.data.length);
+        for (let i = 0; i < data.length; i += 4) {
+            const a = this.data[i + alpha];
+            for (let c = 0; c < 4; c++) {
+                const value = this.data[i + c];
+                if (c === alpha) {
+                    data[i + c] = value;
+                } else if (alphaMode === 'premultiplied') {
+                    data[i + c] = Math.round(value * a / 255);
+                } else {
+                    data[i + c] = a === 0 ? 0 : Math.min(255, Math.round(value * 255 / a));
+                }
+            }
+        }
+
+        const image = this.clone(data);
+        image.alphaMode = alphaMode;
+        return image;
+    }
+
+    premultiply(): RgbaImage {
+        return this.toAlphaMode('premultiplied');
+    }
+
+    unpremultiply(): RgbaImage {
+        return this.toAlphaMode('straight');
+    }
+}
@@ -0,0 +1,220 @@
+import { BinaryWriter } from './BinaryWriter';
+import { RgbaImage } from './RgbaImage';
+
+export interface TgaEncodeOptions {
+    /** Run-length encode the pixels (image type 10), defaults to false */
+    rle?: boolean;
+}
+
+const TGA_COLOR_MAPPED = 1;
+const TGA_TRUE_COLOR = 2;
+const TGA_GRAYSCALE = 3;
+const TGA_RLE_FLAG = 8;
+
+const TGA_HEADER_SIZE = 18;
+const TGA_FOOTER_SIGNATURE = 'TRUEVISION-XFILE.';
+const TGA_FOOTER_SIZE = 26;
+
+/**
+ * Read one pixel of the given depth as RGBA. 15/16-bit pixels are ARRRRRGG GGGBBBBB, little-endian.
+ */
+function readColor(data: Uint8Array, pos: number, depth: number, hasAlpha: boolean, out: Uint8Array, o: number): void {
+    switch (depth) {
+        case 8:
+            out[o] = out[o + 1] = out[o + 2] = data[pos];
+            out[o + 3] = 255;
+            break;
+        case 15:
+        case 16: {
+            const v = data[pos] | (data[pos + 1] << 8);
+            out[o] = Math.round(((v >> 10) & 0x1f) * 255 / 31);
+            out[o + 1] = Math.round(((v >> 5) & 0x1f) * 255 / 31);
+            out[o + 2] = Math.round((v & 0x1f) * 255 / 31);
+            out[o + 3] = depth === 16 && hasAlpha && (v & 0x8000) === 0 ? 0 : 255;
+            break;
+        }
+        case 24:
+            out[o] = data[pos + 2];
+            out[o + 1] = data[pos + 1];
+            out[o + 2] = data[pos];
+            out[o + 3] = 255;
+            break;
+        case 32:
+            out[o] = data[pos + 2];
+            out[o + 1] = data[pos + 1];
+            out[o + 2] = data[pos];
+            out[o + 3] = data[pos + 3];
+            break;
+        default:
+            throw new Error(`Unsupported TGA pixel depth ${depth}`);
+    }
+}
+
+/**
+ * Decode a TGA file to an RGBA image. Supports color-mapped, true-color and grayscale images, raw or RLE, in any origin.
+ */
+export function decodeTga(data: Uint8Array): RgbaImage {
+    if (data.length < TGA_HEADER_SIZE) {
+        throw new Error('TGA data is too short');
+    }
+
+    const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+    const idLength = data[0];
+    const colorMapType = data[1];
+    const imageType = data[2];
+    const colorMapFirst = view.getUint16(3, true);
+    const colorMapLength = view.getUint16(5, true);
+    const colorMapDepth = data[7];
+    const width = view.getUint16(12, true);
+    const height = view.getUint16(14, true);
+    const depth = data[16];
+    const descriptor = data[17];
+
+    const baseType = imageType & ~TGA_RLE_FLAG;
+    const rle = (imageType & TGA_RLE_FLAG) !== 0;
+    if (baseType !== TGA_COLOR_MAPPED && baseType !== TGA_TRUE_COLOR && baseType !== TGA_GRAYSCALE) {
+        throw new Error(`Unsupported TGA image type ${imageType}`);
+    }
+    if (width === 0 || height === 0) {
+        throw new Error(`Invalid TGA dimensions ${width}x${height}`);
+    }
+
+    const alphaBits = descriptor & 0x0f;
+    const rightToLeft = (descriptor & 0x10) !== 0;
+    const topToBottom = (descriptor & 0x20) !== 0;
+
+    let pos = TGA_HEADER_SIZE + idLength;
+
+    let colorMap: Uint8Array | null = null;
+    if (colorMapType === 1) {
+        const entryBytes = Math.ceil(colorMapDepth / 8);
+        colorMap = new Uint8Array((colorMapFirst + colorMapLength) * 4);
+        for (let i = 0; i < colorMapLength; i++) {
+            readColor(data, pos + i * entryBytes, colorMapDepth, alphaBits > 0, colorMap, (colorMapFirst + i) * 4);
+        }
+        pos += colorMapLength * entryBytes;
+    }
+    if (baseType === TGA_COLOR_MAPPED && colorMap === null) {
+        throw new Error('Color-mapped TGA has no color map');
+    }
+
+    const pixelBytes = Math.ceil(depth / 8);
+    const pixelCount = width * height;
+
+    // Expand RLE packets into a plain pixel stream first
+    let pixels: Uint8Array;
+    if (rle) {
+        pixels = new Uint8Array(pixelCount * pixelBytes);
+        let written = 0;
+        while (written < pixels.length) {
+            if (pos >= data.length) {
+                throw new Error('Unexpected end of TGA RLE data');
+            }
+            const packet = data[pos++];
+            const count = (packet & 0x7f) + 1;
+            const bytes = Math.min(count * pixelBytes, pixels.length - written);
+            if ((packet & 0x80) !== 0) {
+                const value = data.subarray(pos, pos + pixelBytes);
+                for (let i = 0; i < bytes; i += pixelBytes) {
+                    pixels.set(value, written + i);
+                }
+                pos += pixelBytes;
+            } else {
+                pixels.set(data.subarray(pos, pos + bytes), written);
+                pos += count * pixelBytes;
+            }
+            written += bytes;
+        }
+    } else {
+        if (pos + pixelCount * pixelBytes > data.length) {
+            throw new Error('Unexpected end of TGA pixel data');
+        }
+        pixels = data.subarray(pos, pos + pixelCount * pixelBytes);
+    }
+
+    const rgba = new Uint8Array(pixelCount * 4);
+    for (let i = 0; i < pixelCount; i++) {
+        const sx = i % width;
+        const sy = Math.floor(i / width);
+        const x = rightToLeft ? width - 1 - sx : sx;
+        const y = topToBottom ? sy : height - 1 - sy;
+        const o = (y * width + x) * 4;
+        const p = i * pixelBytes;
+
+        if (baseType === TGA_COLOR_MAPPED && colorMap !== null) {
+            const index = pixelBytes === 1 ? pixels[p] : pixels[p] | (pixels[p + 1] << 8);
+            if (index * 4 >= colorMap.length) {
+                throw new Error(`TGA color map index ${index} out of range`);
+            }
+            rgba.set(colorMap.subarray(index * 4, index * 4 + 4), o);
+        } else if (baseType === TGA_GRAYSCALE) {
+            rgba[o] = rgba[o + 1] = rgba[o + 2] = pixels[p];
+            rgba[o + 3] = depth === 16 ? pixels[p + 1] : 255;
+        } else {
+            readColor(pixels, p, depth, alphaBits > 0, rgba, o);
+        }
+    }
+
+    return new RgbaImage(width, height, rgba);
+}
+
+/**
+ * Encode an image as a 32-bit top-left origin TGA with straight alpha
+ */
+export function encodeTga(image: RgbaImage, options: TgaEncodeOptions = {}): Uint8Array {
+    const { width, height } = image;
+    if (width > 0xffff || height > 0xffff) {
+        throw new Error(`TGA dimensions are limited to 65535, got ${width}x${height}`);
+    }
+    const bgra = image.toBgra().unpremultiply().data;
+
+    const writer = new BinaryWriter(TGA_HEADER_SIZE + bgra.length + TGA_FOOTER_SIZE);
+    writer.writeByte(0); // ID length
+    writer.writeByte(0); // no color map
+    writer.writeByte(options.rle ? TGA_TRUE_COLOR | TGA_RLE_FLAG : TGA_TRUE_COLOR);
+    writer.writeBytes(new Uint8Array(9)); // color map spec, x/y origin
+    writer.writeUInt16(width);
+    writer.writeUInt16(height);
+    writer.writeByte(32);
+    writer.writeByte(0x20 | 8); // top-left origin, 8 alpha bits
+
+    if (options.rle) {
+        // Packets do not cross scanlines
+        const same = (a: number, b: number): boolean =>
+            bgra[a] === bgra[b] && bgra[a + 1] === bgra[b + 1] && bgra[a + 2] === bgra[b + 2] && bgra[a + 3] === bgra[b + 3];
+        for (let y = 0; y < height; y++) {
+            let x = 0;
+            while (x < width) {
+                const start = (y * width + x) * 4;
+                let run = 1;
+                while (x + run < width && run < 128 && same(start, start + run * 4)) {
+                    run++;
+                }
+                if (run > 1) {
+                    writer.writeByte(0x80 | (run - 1));
+                    writer.writeBytes(bgra.subarray(start, start + 4));
+                    x += run;
+                    continue;
+                }
+
+                // Raw packet up to the next run of at least two equal pixels
+                let count = 1;
+                while (x + count < width && count < 128 &&
+                    !(x + count + 1 < width && same(start + count * 4, start + (count + 1) * 4))) {
+                    count++;
+                }
+                writer.writeByte(count - 1);
+                writer.writeBytes(bgra.subarray(start, start + count * 4));
+                x += count;
+            }
+        }
+    } else {
+        writer.writeBytes(bgra);
+    }
+
+    // TGA 2.0 footer without extension or developer areas
+    writer.writeUInt32(0);
+    writer.writeUInt32(0);
+    writer.writeCString(TGA_FOOTER_SIGNATURE);
+    return writer.getBuffer();
+}
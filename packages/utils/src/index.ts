@@ -1,5 +1,27 @@
 export { BinaryReader } from './BinaryReader';
 export { BinaryWriter } from './BinaryWriter';
-export { decompressLz4Block } from './Lz4';
-export { LZO, lzoDecompress, lzoDecompressWithSize, type LzoDecompressResult } from './Lzo';
-export { lzssDecompress, calculateChecksum } from './Lzss';
+export { compressLz4Block, decompressLz4Block } from './Lz4';
+export { LZO, lzoCompress, lzoDecompress, lzoDecompressWithSize, type LzoDecompressResult } from './Lzo';
+export { lzssCompress, lzssDecompress, calculateChecksum } from './Lzss';
+export {
+    RgbaImage,
+    srgbToLinear,
+    linearToSrgb,
+    type AlphaMode,
+    type ChannelLayout,
+    type ColorSpace
+} from './RgbaImage';
+export {
+    resampleImage,
+    downsampleImage,
+    generateMipChain,
+    computeAlphaCoverage,
+    scaleAlphaToCoverage,
+    type ResampleFilter,
+    type ResampleEdgeMode,
+    type ResampleOptions,
+    type MipChainOptions
+} from './Resample';
+export { inflate, deflate, zlibCompress, zlibDecompress } from './Deflate';
+export { decodePng, encodePng, type PngEncodeOptions } from './Png';
+export { decodeTga, encodeTga, type TgaEncodeOptions } from './Tga';